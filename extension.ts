@@ -24,6 +24,7 @@ import { configuration } from './src/configuration/configuration';
 import * as path from 'path';
 import { Logger } from './src/util/logger';
 import { ClangdContext } from './src/clangd/clangd-context';
+import * as treeSitter from './src/ast/treeSitter';
 
 export { getAndUpdateModeHandler } from './extensionBase';
 
@@ -58,6 +59,8 @@ export async function activate(context: vscode.ExtensionContext) {
     false
   );
 
+  treeSitter.activate(context);
+
   const outputChannel = vscode.window.createOutputChannel('clangd');
   context.subscriptions.push(outputChannel);
 
@@ -11,12 +11,19 @@ import { Logger } from './src/util/logger';
 import { StatusBar } from './src/statusBar';
 import { VSCodeContext } from './src/util/vscodeContext';
 import { ExCommandLine, SearchCommandLine } from './src/cmd_line/commandLine';
+import { CdoCommand } from './src/cmd_line/commands/cdo';
 import { configuration } from './src/configuration/configuration';
 import { globalState } from './src/state/globalState';
 import { taskQueue } from './src/taskQueue';
 import { Register } from './src/register/register';
+import { pruneUndoFiles } from './src/history/undoFile';
+import * as quickfixView from './src/quickfix/quickfixView';
 import { SpecialKeys } from './src/util/specialKeys';
 import { exCommandParser } from './src/vimscript/exCommandParser';
+import { ASTNode } from './src/clangd/ast';
+import { astConverter } from './src/ast/astProvider';
+import { isStructuralEditingAvailable, selectAstNode } from './src/clangd/structural-editing';
+import { Cursor } from './src/common/motion/cursor';
 
 let extensionContext: vscode.ExtensionContext;
 let previousActiveEditorUri: vscode.Uri | undefined;
@@ -95,6 +102,7 @@ async function loadConfiguration() {
  */
 export async function activate(context: vscode.ExtensionContext, handleLocal: boolean = true) {
   ExCommandLine.parser = exCommandParser;
+  CdoCommand.getModeHandler = getAndUpdateModeHandler;
 
   Logger.init();
 
@@ -105,9 +113,13 @@ export async function activate(context: vscode.ExtensionContext, handleLocal: bo
 
   extensionContext = context;
   extensionContext.subscriptions.push(StatusBar);
+  quickfixView.activate(context);
 
   // Load state
   Register.loadFromDisk(handleLocal);
+  if (configuration.undofile) {
+    pruneUndoFiles();
+  }
   await Promise.all([ExCommandLine.loadHistory(context), SearchCommandLine.loadHistory(context)]);
 
   if (vscode.window.activeTextEditor) {
@@ -179,6 +191,17 @@ export async function activate(context: vscode.ExtensionContext, handleLocal: bo
     }
   });
 
+  registerEventListener(context, vscode.workspace.onDidSaveTextDocument, async (document) => {
+    const historyTracker = ModeHandlerMap.get(document.uri)?.vimState.historyTracker;
+    if (historyTracker) {
+      // `:earlier {N}f` and `:later {N}f` go back and forth between the states the document was written in
+      historyTracker.recordWrite();
+      if (configuration.undofile) {
+        await historyTracker.saveUndoFile();
+      }
+    }
+  });
+
   registerEventListener(
     context,
     vscode.workspace.onDidCloseTextDocument,
@@ -479,6 +502,33 @@ export async function activate(context: vscode.ExtensionContext, handleLocal: bo
     });
   });
 
+  // Picking a node in clangd's AST view while it follows the structural cursor
+  registerCommand(
+    context,
+    'vim.selectAstNode',
+    async (args: { uri: vscode.Uri; node: ASTNode }) => {
+      taskQueue.enqueueTask(async () => {
+        await vscode.window.showTextDocument(args.uri, { preserveFocus: true });
+        const mh = await getAndUpdateModeHandler();
+        if (
+          mh === undefined ||
+          !args.node.range ||
+          !isStructuralEditingAvailable(mh.vimState.document)
+        ) {
+          return;
+        }
+
+        await selectAstNode(mh.vimState, args.node);
+        const start = astConverter.asPosition(args.node.range.start);
+        mh.vimState.cursors = [new Cursor(start, start)];
+        await mh.vimState.setCurrentMode(Mode.Structural);
+        await mh.updateView();
+        await mh.updateStructuralSelection();
+      });
+    },
+    false
+  );
+
   registerCommand(context, 'toggleVim', async () => {
     configuration.disableExtension = !configuration.disableExtension;
     toggleExtension(configuration.disableExtension, compositionState);
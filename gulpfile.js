@@ -85,6 +85,16 @@ function copyPackageJson() {
   return gulp.src('./package.json').pipe(gulp.dest('out'));
 }
 
+// Tree-sitter and its grammars are WebAssembly modules loaded at runtime, so they can't be bundled.
+function copyTreeSitter() {
+  return gulp
+    .src([
+      './node_modules/web-tree-sitter/tree-sitter.wasm',
+      './node_modules/tree-sitter-wasms/out/tree-sitter-{c,cpp,python,typescript,tsx}.wasm',
+    ])
+    .pipe(gulp.dest('out/tree-sitter'));
+}
+
 gulp.task('tsc', function () {
   var isError = false;
 
@@ -182,9 +192,9 @@ gulp.task('run-test', function (done) {
   });
 });
 
-gulp.task('build', gulp.series('webpack', 'commit-hash'));
-gulp.task('build-dev', gulp.series('webpack-dev', 'commit-hash'));
-gulp.task('prepare-test', gulp.parallel('tsc', copyPackageJson));
+gulp.task('build', gulp.series('webpack', copyTreeSitter, 'commit-hash'));
+gulp.task('build-dev', gulp.series('webpack-dev', copyTreeSitter, 'commit-hash'));
+gulp.task('prepare-test', gulp.parallel('tsc', copyPackageJson, copyTreeSitter));
 gulp.task('test', gulp.series('prepare-test', 'run-test'));
 gulp.task('release', gulp.series(validateArgs, updateVersion, createGitCommit, createGitTag));
 gulp.task('default', gulp.series('build', 'test'));
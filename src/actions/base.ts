@@ -22,6 +22,11 @@ export abstract class BaseAction implements IBaseAction {
    */
   public readonly createsUndoPoint: boolean = false;
 
+  /**
+   * If true, the action works on the AST, and so is refused while the AST provider is still building it.
+   */
+  public readonly requiresAst: boolean = false;
+
   /**
    * If this is being run in multi cursor mode, the index of the cursor
    * this action is being applied to.
@@ -0,0 +1,1743 @@
+import { escapeRegExp } from 'lodash';
+import * as vscode from 'vscode';
+import { Position } from 'vscode';
+
+import { ASTNode, FunctionKinds } from '../../clangd/ast';
+import { astConverter, getAstProvider } from '../../ast/astProvider';
+import {
+  areEqual,
+  getAstNodeAncestors,
+  getAstNodePath,
+  getAstNodeSpan,
+  getParentAstNode,
+  getRangeWithSemiColon,
+  isStructuralEditingAvailable,
+  selectAstNode,
+} from '../../clangd/structural-editing';
+import { getRelatedTypes, TypeHierarchyDirection } from '../../clangd/type-hierarchy';
+import { getCalls, prepareCallHierarchy } from '../../clangd/call-hierarchy';
+import { getPairedFile } from '../../clangd/switch-source-header';
+import { Cursor } from '../../common/motion/cursor';
+import { configuration } from '../../configuration/configuration';
+import { ErrorCode, VimError } from '../../error';
+import { Mode } from '../../mode/mode';
+import { Register } from '../../register/register';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { BaseCommand, RegisterAction } from '../base';
+
+@RegisterAction
+class EnterStructuralMode extends BaseCommand {
+  modes = [Mode.Normal];
+  override requiresAst = true;
+  keys = ['g', 's'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    if (!isStructuralEditingAvailable(vimState.document)) {
+      StatusBar.setText(vimState, 'Structural mode requires a document with an AST provider', true);
+      return;
+    }
+
+    // Start from whatever node is under the cursor rather than wherever we last left off.
+    vimState.currentAstNode = null;
+    vimState.currentParent = null;
+    await vimState.setCurrentMode(Mode.Structural);
+  }
+}
+
+@RegisterAction
+class ExitStructuralMode extends BaseCommand {
+  modes = [Mode.Structural];
+  keys = ['g', 's'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    await vimState.setCurrentMode(Mode.Normal);
+  }
+}
+
+function getEntireNodeRange(range: vscode.Range): vscode.Range {
+  const document = vscode.window.activeTextEditor!.document;
+  const start = range.start;
+  let end = range.end;
+  const text = document.lineAt(range.end.line).text;
+  if (text.length === end.character || text.charAt(end.character) === ';') {
+    end = new vscode.Position(range.end.line, range.end.character + 1);
+  }
+  return new vscode.Range(start, end);
+}
+
+/**
+ * Stores the text of `node` in the selected register, along with what is needed to put it back elsewhere.
+ */
+function putNodeInRegister(vimState: VimState, node: ASTNode, range: vscode.Range): void {
+  const line = vimState.document.lineAt(range.start.line);
+  Register.putNode(vimState, vimState.document.getText(range), {
+    kind: node.kind,
+    indentation: line.text.substring(0, line.firstNonWhitespaceCharacterIndex),
+  });
+}
+
+/**
+ * Moves the lines of `text` after the first from the `from` indentation to the `to` indentation.
+ */
+export function reindent(text: string, from: string, to: string): string {
+  return text
+    .split('\n')
+    .map((line, i) => (i > 0 && line.startsWith(from) ? to + line.substring(from.length) : line))
+    .join('\n');
+}
+
+@RegisterAction
+class YankAstNode extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['y'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+
+    putNodeInRegister(
+      vimState,
+      currentNode,
+      getRangeWithSemiColon(astConverter.asRange(currentNode.range!))
+    );
+  }
+}
+
+@RegisterAction
+class ChangeAstNode extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['c'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+
+    const astNodeRange = astConverter.asRange(currentNode.range!);
+    putNodeInRegister(vimState, currentNode, getRangeWithSemiColon(astNodeRange));
+
+    // The semicolon stays, so that whatever replaces the node is still a statement.
+    vimState.recordedState.transformer.addTransformation({
+      type: 'deleteRange',
+      range: astNodeRange,
+      manuallySetCursorPositions: true,
+    });
+    vimState.cursors = [new Cursor(astNodeRange.start, astNodeRange.start)];
+    await vimState.setCurrentMode(Mode.Insert);
+  }
+}
+
+/**
+ * Puts the content of a register as a sibling of the current node. Nodes which start their own line are put on
+ * a line of their own at the same indentation; others, such as arguments, are put inline with a comma.
+ */
+abstract class PutAstNode extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  protected abstract readonly before: boolean;
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+
+    const registerName = vimState.recordedState.registerName;
+    const register = await Register.get(registerName);
+    if (register === undefined || typeof register.text !== 'string') {
+      StatusBar.displayError(
+        vimState,
+        VimError.fromCode(ErrorCode.NothingInRegister, registerName)
+      );
+      return;
+    }
+
+    const astNodeRange = getRangeWithSemiColon(astConverter.asRange(currentNode.range!));
+    const line = vimState.document.lineAt(astNodeRange.start.line);
+
+    let text: string;
+    let insertPosition: Position;
+    let cursorPosition: Position;
+    if (line.firstNonWhitespaceCharacterIndex === astNodeRange.start.character) {
+      const indentation = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+      const nodeText = reindent(register.text, register.node?.indentation ?? '', indentation);
+      if (this.before) {
+        text = nodeText + '\n' + indentation;
+        insertPosition = astNodeRange.start;
+        cursorPosition = astNodeRange.start;
+      } else {
+        text = '\n' + indentation + nodeText;
+        insertPosition = astNodeRange.end;
+        cursorPosition = new Position(astNodeRange.end.line + 1, indentation.length);
+      }
+    } else if (this.before) {
+      text = register.text + ', ';
+      insertPosition = astNodeRange.start;
+      cursorPosition = astNodeRange.start;
+    } else {
+      text = ', ' + register.text;
+      insertPosition = astNodeRange.end;
+      cursorPosition = astNodeRange.end.translate(0, 2);
+    }
+
+    vimState.recordedState.transformer.addTransformation({
+      type: 'insertText',
+      text,
+      position: insertPosition,
+      manuallySetCursorPositions: true,
+    });
+    vimState.cursors = [new Cursor(cursorPosition, cursorPosition)];
+  }
+}
+
+@RegisterAction
+class PutAstNodeAfter extends PutAstNode {
+  keys = ['p'];
+  protected readonly before = false;
+}
+
+@RegisterAction
+class PutAstNodeBefore extends PutAstNode {
+  keys = ['P'];
+  protected readonly before = true;
+}
+
+@RegisterAction
+class DeleteAstNode extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['x'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    if (!vimState.currentAstNode) {
+      return;
+    }
+    let astNodeRange = astConverter.asRange(vimState.currentAstNode.range!);
+    astNodeRange = getRangeWithSemiColon(astNodeRange);
+    let entireNodeRange = getEntireNodeRange(astNodeRange);
+
+    const document = vscode.window.activeTextEditor!.document;
+    putNodeInRegister(vimState, vimState.currentAstNode, astNodeRange);
+    if (
+      document.lineAt(entireNodeRange.start.line).firstNonWhitespaceCharacterIndex ===
+      entireNodeRange.start.character
+    ) {
+      entireNodeRange = new vscode.Range(
+        entireNodeRange.start.getUp().getLineEndIncludingEOL(),
+        entireNodeRange.end
+      );
+    }
+
+    vimState.recordedState.transformer.addTransformation({
+      type: 'deleteRange',
+      range: entireNodeRange,
+      manuallySetCursorPositions: true,
+    });
+  }
+}
+
+@RegisterAction
+class ReplaceParentAstNode extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['s'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+    let parent = await getParentAstNode(currentNode, vimState);
+    if (!parent) {
+      return;
+    }
+    if (parent.kind === 'Compound') {
+      const grandParent = await getParentAstNode(parent, vimState);
+      if (grandParent?.kind !== 'Compound') {
+        parent = grandParent ?? parent;
+      }
+    }
+
+    const astNodeRange = getEntireNodeRange(
+      getRangeWithSemiColon(astConverter.asRange(currentNode.range!))
+    );
+    const astNodeText = vscode.window.activeTextEditor!.document.getText(astNodeRange);
+    vimState.recordedState.transformer.addTransformation({
+      type: 'replaceText',
+      range: astConverter.asRange(parent.range!),
+      text: astNodeText,
+    });
+  }
+}
+
+@RegisterAction
+class ExtractToParentLevel extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['e'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+    let parent = await getParentAstNode(currentNode, vimState);
+    if (!parent) {
+      return;
+    }
+    if (parent.kind === 'Compound') {
+      const grandParent = await getParentAstNode(parent, vimState);
+      if (grandParent?.kind !== 'Compound') {
+        parent = grandParent ?? parent;
+      }
+    }
+
+    let astNodeRange = astConverter.asRange(currentNode.range!);
+    astNodeRange = getRangeWithSemiColon(astNodeRange);
+    let entireNodeRange = getEntireNodeRange(astNodeRange);
+
+    const document = vscode.window.activeTextEditor!.document;
+    if (
+      document.lineAt(entireNodeRange.start.line).firstNonWhitespaceCharacterIndex ===
+      entireNodeRange.start.character
+    ) {
+      entireNodeRange = new vscode.Range(
+        entireNodeRange.start.getUp().getLineEndIncludingEOL(),
+        entireNodeRange.end
+      );
+    }
+
+    vimState.recordedState.transformer.addTransformation({
+      type: 'deleteRange',
+      range: entireNodeRange,
+      manuallySetCursorPositions: true,
+    });
+
+    const astNodeText = document.getText(astNodeRange);
+    const parentLine = parent.range!.start.line;
+    vimState.recordedState.transformer.addTransformation({
+      type: 'insertText',
+      text:
+        astNodeText +
+        '\n' +
+        document.getText(
+          new vscode.Range(
+            parentLine,
+            0,
+            parentLine,
+            document.lineAt(parentLine).firstNonWhitespaceCharacterIndex
+          )
+        ),
+      position: astConverter.asPosition(parent.range!.start),
+      cursorIndex: 0,
+      manuallySetCursorPositions: true,
+    });
+  }
+}
+
+function getCursorForNode(node: ASTNode): Cursor {
+  let newPosition = astConverter.asPosition(node.range!.start);
+
+  const document = vscode.window.activeTextEditor!.document;
+  if (
+    node.kind === 'Decl' &&
+    node.children &&
+    node.children[0].kind === 'Var' &&
+    node.children[0].children
+  ) {
+    newPosition = astConverter.asPosition(node.children[0].children[0].range!.end);
+    while (document.lineAt(newPosition.line).text.charAt(newPosition.character) === ' ') {
+      newPosition = newPosition.getRightThroughLineBreaks();
+    }
+  }
+
+  return new Cursor(newPosition, newPosition);
+}
+
+@RegisterAction
+class ExpandToParentNode extends BaseCommand {
+  modes = [Mode.Structural, Mode.StructuralVisual];
+  override requiresAst = true;
+  keys = ['k'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const parentNode = await getParentAstNode(vimState.currentAstNode, vimState);
+    if (parentNode) {
+      vimState.cursors[0] = getCursorForNode(parentNode);
+      vimState.currentAstNode = parentNode;
+      // A structural visual selection of several siblings is promoted to their parent.
+      vimState.astNodeSpanAnchor = null;
+    }
+  }
+}
+
+function getChildIfImplicitCast(node: ASTNode): ASTNode {
+  return node.kind !== 'ImplicitCast' ? node : node.children![0];
+}
+
+@RegisterAction
+class ContractToFirstChildNode extends BaseCommand {
+  modes = [Mode.Structural, Mode.StructuralVisual];
+  override requiresAst = true;
+  keys = ['j'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    if (vimState.currentAstNode?.children) {
+      vimState.currentParent = vimState.currentAstNode;
+      const newNode = getChildIfImplicitCast(vimState.currentAstNode.children[0]);
+      vimState.cursors[0] = getCursorForNode(newNode);
+      vimState.currentAstNode = newNode;
+      vimState.astNodeSpanAnchor = null;
+    }
+  }
+}
+
+@RegisterAction
+class GetPreviousSibling extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['h'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const parentNode = await getParentAstNode(vimState.currentAstNode, vimState);
+    if (parentNode) {
+      const numChildren = parentNode.children!.length;
+      let i = 0;
+      for (; i < numChildren; i++) {
+        if (areEqual(parentNode.children![i], vimState.currentAstNode!)) {
+          i = i !== 0 ? i - 1 : numChildren - 1;
+          break;
+        }
+      }
+      const newNode = getChildIfImplicitCast(parentNode.children![i]);
+      vimState.cursors[0] = getCursorForNode(newNode);
+      vimState.currentAstNode = newNode;
+    }
+  }
+}
+
+@RegisterAction
+class GetNextSibling extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['l'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const parentNode = await getParentAstNode(vimState.currentAstNode, vimState);
+    if (parentNode) {
+      const numChildren = parentNode.children!.length;
+      let i = 0;
+      for (; i < numChildren; i++) {
+        if (areEqual(parentNode.children![i], vimState.currentAstNode!)) {
+          i = (i + 1) % numChildren;
+          break;
+        }
+      }
+      const newNode = getChildIfImplicitCast(parentNode.children![i]);
+      vimState.cursors[0] = getCursorForNode(newNode);
+      vimState.currentAstNode = newNode;
+    }
+  }
+}
+
+/**
+ * Returns the position `text` would end at if it were inserted at `position`.
+ */
+function advancePosition(position: Position, text: string): Position {
+  const lines = text.split('\n');
+  return lines.length === 1
+    ? position.translate(0, text.length)
+    : new Position(position.line + lines.length - 1, lines[lines.length - 1].length);
+}
+
+/**
+ * Swaps the text of the current node with that of its previous or next sibling, leaving whatever separates them
+ * (commas, or the whitespace between statements) where it is. The current node stays selected, so that it can be
+ * dragged along by pressing the key repeatedly.
+ */
+abstract class SwapWithSibling extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  protected abstract readonly direction: 'previous' | 'next';
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    const parentNode = await getParentAstNode(currentNode, vimState);
+    if (!currentNode || !parentNode?.children) {
+      return;
+    }
+
+    const index = parentNode.children.findIndex((child) => areEqual(child, currentNode));
+    const siblingIndex = this.direction === 'previous' ? index - 1 : index + 1;
+    // The callee of a call is not one of its arguments.
+    const firstSwappableIndex =
+      parentNode.kind === 'Call' || parentNode.kind === 'CXXMemberCall' ? 1 : 0;
+    if (
+      index === -1 ||
+      index < firstSwappableIndex ||
+      siblingIndex < firstSwappableIndex ||
+      siblingIndex >= parentNode.children.length
+    ) {
+      return;
+    }
+    const siblingNode = parentNode.children[siblingIndex];
+    // Don't swap, say, the return type of a prototype with one of its parameters.
+    if (siblingNode.role !== currentNode.role) {
+      return;
+    }
+
+    // Statements carry their semicolon along with them; arguments, parameters and initializers leave their commas.
+    const getSwappedRange = (node: ASTNode) => {
+      const range = astConverter.asRange(node.range!);
+      return parentNode.kind === 'Compound' ? getRangeWithSemiColon(range) : range;
+    };
+    const currentRange = getSwappedRange(currentNode);
+    const siblingRange = getSwappedRange(siblingNode);
+    const document = vimState.document;
+    const currentText = document.getText(currentRange);
+    const siblingText = document.getText(siblingRange);
+
+    vimState.recordedState.transformer.addTransformation({
+      type: 'replaceText',
+      range: currentRange,
+      text: siblingText,
+      manuallySetCursorPositions: true,
+    });
+    vimState.recordedState.transformer.addTransformation({
+      type: 'replaceText',
+      range: siblingRange,
+      text: currentText,
+    });
+
+    let newStart: Position;
+    if (this.direction === 'previous') {
+      newStart = siblingRange.start;
+    } else {
+      const between = document.getText(new vscode.Range(currentRange.end, siblingRange.start));
+      newStart = advancePosition(advancePosition(currentRange.start, siblingText), between);
+    }
+    const nodeText = document.getText(astConverter.asRange(currentNode.range!));
+    vimState.pendingAstNodeRange = new vscode.Range(newStart, advancePosition(newStart, nodeText));
+    vimState.cursors = [new Cursor(newStart, newStart)];
+  }
+}
+
+@RegisterAction
+class SwapWithPreviousSibling extends SwapWithSibling {
+  keys = ['H'];
+  protected readonly direction = 'previous';
+}
+
+@RegisterAction
+class SwapWithNextSibling extends SwapWithSibling {
+  keys = ['L'];
+  protected readonly direction = 'next';
+}
+
+/**
+ * Expands a wrap template around `body`, which starts at the given indentation. Returns the text along with the
+ * offset of the cursor placeholder in it, if there is one.
+ */
+export function expandWrapTemplate(
+  template: string,
+  body: string,
+  indentation: string,
+  indentUnit: string
+): { text: string; placeholder: number | undefined } {
+  // Mark the placeholder with a character which can't be in the body, which may well contain `|` itself.
+  const lines = template
+    .replace('|', '\0')
+    .split('\n')
+    .map((templateLine, i) => {
+      const level = templateLine.length - templateLine.replace(/^\t+/, '').length;
+      const lineIndentation = (i === 0 ? '' : indentation) + indentUnit.repeat(level);
+      const bodyText = reindent(body, indentation, lineIndentation);
+      return lineIndentation + templateLine.substring(level).replace('$body', () => bodyText);
+    });
+
+  const text = lines.join('\n');
+  const placeholder = text.indexOf('\0');
+  return placeholder === -1
+    ? { text, placeholder: undefined }
+    : { text: text.substring(0, placeholder) + text.substring(placeholder + 1), placeholder };
+}
+
+/**
+ * Puts the current node, along with the [count] - 1 sibling statements which follow it, or the structural visual
+ * selection, inside one of the constructs of `vim.structuralWrapTemplates`, chosen by the key typed after `w`. The
+ * cursor is left in Insert mode at the template's placeholder if it has one; otherwise, the new construct becomes
+ * the current node.
+ */
+@RegisterAction
+class WrapAstNode extends BaseCommand {
+  modes = [Mode.Structural, Mode.StructuralVisual];
+  override requiresAst = true;
+  keys = ['w', '<character>'];
+
+  override createsUndoPoint = true;
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+
+    const template = configuration.structuralWrapTemplates[this.keysPressed[1]];
+    if (template === undefined) {
+      StatusBar.setText(vimState, `No structural wrap template for '${this.keysPressed[1]}'`, true);
+      return;
+    }
+
+    let range: vscode.Range;
+    if (vimState.currentMode === Mode.StructuralVisual) {
+      await getParentAstNode(currentNode, vimState);
+      range = getAstNodeSpan(vimState)!;
+    } else {
+      let lastNode = currentNode;
+      const count = vimState.recordedState.count || 1;
+      const parentNode = await getParentAstNode(currentNode, vimState);
+      if (count > 1 && parentNode?.kind === 'Compound' && parentNode.children) {
+        const index = parentNode.children.findIndex((child) => areEqual(child, currentNode));
+        lastNode = parentNode.children[Math.min(index + count - 1, parentNode.children.length - 1)];
+      }
+
+      range = new vscode.Range(
+        astConverter.asPosition(currentNode.range!.start),
+        getRangeWithSemiColon(astConverter.asRange(lastNode.range!)).end
+      );
+    }
+    const document = vimState.document;
+    const line = document.lineAt(range.start.line);
+    const indentation = line.text.substring(0, line.firstNonWhitespaceCharacterIndex);
+    const indentUnit = vimState.editor.options.insertSpaces
+      ? ' '.repeat(vimState.editor.options.tabSize as number)
+      : '\t';
+
+    const { text, placeholder } = expandWrapTemplate(
+      template,
+      document.getText(range),
+      indentation,
+      indentUnit
+    );
+    vimState.recordedState.transformer.addTransformation({
+      type: 'replaceText',
+      range,
+      text,
+      manuallySetCursorPositions: true,
+    });
+
+    if (placeholder !== undefined) {
+      const cursorPosition = advancePosition(range.start, text.substring(0, placeholder));
+      vimState.cursors = [new Cursor(cursorPosition, cursorPosition)];
+      await vimState.setCurrentMode(Mode.Insert);
+    } else {
+      const end = advancePosition(range.start, text.replace(/;$/, ''));
+      vimState.pendingAstNodeRange = new vscode.Range(range.start, end);
+      vimState.cursors = [new Cursor(range.start, range.start)];
+      await vimState.setCurrentMode(Mode.Structural);
+    }
+  }
+}
+
+/**
+ * Applies `edit` once the user has reviewed it. Asking for every text edit to be confirmed makes VS Code show the
+ * edit in its refactor preview, with a diff of each file and a checkbox for each occurrence.
+ */
+async function applyEditWithPreview(edit: vscode.WorkspaceEdit, label: string): Promise<boolean> {
+  const preview = new vscode.WorkspaceEdit();
+  for (const [uri, textEdits] of edit.entries()) {
+    for (const textEdit of textEdits) {
+      preview.replace(uri, textEdit.range, textEdit.newText, {
+        needsConfirmation: true,
+        label,
+        description: vscode.workspace.asRelativePath(uri),
+      });
+    }
+  }
+  return vscode.workspace.applyEdit(preview);
+}
+
+/** The kinds of nodes which declare or refer to a symbol that can be renamed. */
+const renamableKinds = new Set(['DeclRef', 'Var', 'Function', 'Field', 'Record']);
+
+/**
+ * Returns where the name of the symbol declared or referred to by `node` appears, which for a declaration isn't
+ * where the node starts, e.g. a function starts with its return type.
+ */
+function getSymbolNamePosition(document: vscode.TextDocument, node: ASTNode): vscode.Position {
+  const range = astConverter.asRange(node.range!);
+  const name = node.detail?.split('::').pop();
+  const match =
+    name && new RegExp(`(?<!\\w)${escapeRegExp(name)}(?!\\w)`).exec(document.getText(range));
+  return match ? document.positionAt(document.offsetAt(range.start) + match.index) : range.start;
+}
+
+@RegisterAction
+class RenameAstNodeSymbol extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['r'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode || !renamableKinds.has(currentNode.kind)) {
+      StatusBar.setText(vimState, 'Only declarations and references can be renamed', true);
+      return;
+    }
+
+    const document = vimState.document;
+    const namePosition = getSymbolNamePosition(document, currentNode);
+    let renameInfo: { range: vscode.Range; placeholder: string } | undefined;
+    try {
+      renameInfo = await vscode.commands.executeCommand(
+        'vscode.prepareRename',
+        document.uri,
+        namePosition
+      );
+    } catch (e) {
+      StatusBar.setText(vimState, e instanceof Error ? e.message : String(e), true);
+      return;
+    }
+    if (!renameInfo) {
+      StatusBar.setText(vimState, 'This symbol cannot be renamed', true);
+      return;
+    }
+    const oldName = renameInfo.placeholder;
+
+    const newName = await vscode.window.showInputBox({
+      prompt: `Rename ${oldName} to`,
+      value: oldName,
+    });
+    if (!newName || newName === oldName) {
+      return;
+    }
+
+    const edit = await vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+      'vscode.executeDocumentRenameProvider',
+      document.uri,
+      namePosition,
+      newName
+    );
+    if (!edit || edit.size === 0) {
+      StatusBar.setText(vimState, `No occurrences of ${oldName} to rename`, true);
+      return;
+    }
+
+    // Renaming doesn't change the shape of the tree, so the same node can be selected afterwards.
+    const path = await getAstNodePath(vimState);
+    if (!(await applyEditWithPreview(edit, `Rename ${oldName} to ${newName}`))) {
+      return;
+    }
+    vimState.pendingAstNodePath = path ?? null;
+
+    // The preview may have moved the focus to another editor, so make sure the occurrences in this document are
+    // recorded as a single step.
+    vimState.historyTracker.addChange(true);
+    vimState.historyTracker.finishCurrentStep();
+  }
+}
+
+/**
+ * Returns the parameters of the function `node` declares, which clangd nests in the type of the function.
+ */
+function getParameters(node: ASTNode): ASTNode[] {
+  const prototype = node.children?.find((child) => child.kind === 'FunctionProto');
+  return (prototype?.children ?? []).filter((child) => child.kind === 'ParmVar' && child.range);
+}
+
+/**
+ * Makes the innermost node of one of `kinds` around `range` of the document at `uri` the current node, showing the
+ * document first if it isn't the current one.
+ */
+async function selectNodeAt(
+  vimState: VimState,
+  uri: vscode.Uri,
+  range: vscode.Range,
+  kinds: Set<string>
+): Promise<void> {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const provider = getAstProvider(document);
+  let node = (await provider?.getNodeForRange(document, range)) ?? null;
+  while (node && !kinds.has(node.kind)) {
+    node = await provider!.getParent(document, node);
+  }
+
+  if (document !== vimState.document) {
+    // The other editor's mode handler takes over from here.
+    await vscode.window.showTextDocument(document, {
+      selection: new vscode.Range(range.start, range.start),
+    });
+    if (node) {
+      await vscode.commands.executeCommand('vim.selectAstNode', { uri, node });
+    }
+    return;
+  }
+
+  const start = node ? astConverter.asPosition(node.range!.start) : range.start;
+  if (node) {
+    await selectAstNode(vimState, node);
+  }
+  vimState.cursors = [new Cursor(start, start)];
+}
+
+/**
+ * Writes an empty definition of the function `node` declares: its signature with its name qualified by the classes
+ * and namespaces among its `ancestors`, and without default arguments or the specifiers which only belong in a class.
+ */
+export function getStubDefinition(
+  document: vscode.TextDocument,
+  node: ASTNode,
+  ancestors: ASTNode[]
+): string {
+  const range = astConverter.asRange(node.range!);
+  const offset = (position: vscode.Position) =>
+    document.offsetAt(position) - document.offsetAt(range.start);
+  let text = document.getText(range);
+
+  const defaultArguments = getParameters(node)
+    .flatMap((parameter) => parameter.children ?? [])
+    .filter((child) => child.role === 'expression' && child.range);
+  for (const argument of defaultArguments.reverse()) {
+    const argumentRange = astConverter.asRange(argument.range!);
+    const equals = text.lastIndexOf('=', offset(argumentRange.start));
+    text = text.slice(0, equals).trimEnd() + text.slice(offset(argumentRange.end));
+  }
+
+  const scopes = ancestors
+    .filter((ancestor) => ['CXXRecord', 'Namespace'].includes(ancestor.kind) && ancestor.detail)
+    .map((ancestor) => `${ancestor.detail}::`);
+  const nameOffset = offset(getSymbolNamePosition(document, node));
+  text = text.slice(0, nameOffset) + scopes.join('') + text.slice(nameOffset);
+
+  return (
+    text
+      .replace(/^((virtual|static|explicit|friend)\s+)+/, '')
+      .replace(/\s*\b(override|final)\b|\s*=\s*0$/g, '') + ' {\n}\n'
+  );
+}
+
+@RegisterAction
+class GoToPairedFunction extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['o'];
+  override isJump = true;
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode || !FunctionKinds.has(currentNode.kind)) {
+      StatusBar.setText(vimState, 'Only functions have a declaration and a definition', true);
+      return;
+    }
+
+    const document = vimState.document;
+    const isDefinition = currentNode.children?.some((child) => child.kind === 'Compound') ?? false;
+    const locations =
+      (await vscode.commands.executeCommand<
+        Array<vscode.Location | vscode.LocationLink> | undefined
+      >(
+        isDefinition ? 'vscode.executeDeclarationProvider' : 'vscode.executeDefinitionProvider',
+        document.uri,
+        getSymbolNamePosition(document, currentNode)
+      )) ?? [];
+    const currentRange = astConverter.asRange(currentNode.range!);
+    const targets = locations
+      .map((location) =>
+        'targetUri' in location
+          ? new vscode.Location(
+              location.targetUri,
+              location.targetSelectionRange ?? location.targetRange
+            )
+          : location
+      )
+      .filter(
+        (location) =>
+          location.uri.toString() !== document.uri.toString() ||
+          !currentRange.contains(location.range)
+      );
+    // Prefer the paired file to, say, another declaration in the same file.
+    const target =
+      targets.find((location) => location.uri.toString() !== document.uri.toString()) ?? targets[0];
+    if (target) {
+      await selectNodeAt(vimState, target.uri, target.range, FunctionKinds);
+      return;
+    }
+
+    if (isDefinition) {
+      StatusBar.setText(vimState, `${currentNode.detail} has no separate declaration`, true);
+      return;
+    }
+
+    // Declarations in a header are defined in its source file, others in the same file.
+    const isHeader = /\.(h|hh|hpp|hxx|h\+\+|inc)$/i.test(document.fileName);
+    const client = globalThis.clangContext?.client;
+    const stubUri = isHeader ? client && (await getPairedFile(client, document.uri)) : document.uri;
+    if (!stubUri) {
+      StatusBar.setText(
+        vimState,
+        `${currentNode.detail} has no definition, nor a source file to put one in`,
+        true
+      );
+      return;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      `${currentNode.detail} has no definition. Create a stub in ${vscode.workspace.asRelativePath(
+        stubUri
+      )}?`,
+      'Create Stub'
+    );
+    if (choice !== 'Create Stub') {
+      return;
+    }
+
+    const stub = getStubDefinition(
+      document,
+      currentNode,
+      await getAstNodeAncestors(currentNode, document)
+    );
+    const stubDocument = await vscode.workspace.openTextDocument(stubUri);
+    const end = stubDocument.positionAt(stubDocument.getText().length);
+    const separator = stubDocument.getText().endsWith('\n') ? '\n' : '\n\n';
+    const edit = new vscode.WorkspaceEdit();
+    edit.insert(stubUri, end, separator + stub);
+    if (!(await vscode.workspace.applyEdit(edit))) {
+      return;
+    }
+
+    const stubStart = advancePosition(end, separator);
+    await selectNodeAt(vimState, stubUri, new vscode.Range(stubStart, stubStart), FunctionKinds);
+  }
+}
+
+/**
+ * Returns the class the method `node` belongs to and the document it is in. A method defined outside of its class,
+ * as in `void Foo::bar() {}`, isn't nested in it, so its class is the one around its declaration instead.
+ */
+async function getMethodClass(
+  document: vscode.TextDocument,
+  node: ASTNode
+): Promise<{ document: vscode.TextDocument; record: ASTNode } | undefined> {
+  const findRecord = async (nodeDocument: vscode.TextDocument, descendant: ASTNode) =>
+    (await getAstNodeAncestors(descendant, nodeDocument))
+      .reverse()
+      .find((ancestor) => ancestor.kind === 'CXXRecord');
+
+  const record = await findRecord(document, node);
+  if (record) {
+    return { document, record };
+  }
+
+  const declarations =
+    (await vscode.commands.executeCommand<Array<vscode.Location | vscode.LocationLink> | undefined>(
+      'vscode.executeDeclarationProvider',
+      document.uri,
+      getSymbolNamePosition(document, node)
+    )) ?? [];
+  for (const declaration of declarations) {
+    const location =
+      'targetUri' in declaration
+        ? new vscode.Location(
+            declaration.targetUri,
+            declaration.targetSelectionRange ?? declaration.targetRange
+          )
+        : declaration;
+    const declarationDocument = await vscode.workspace.openTextDocument(location.uri);
+    const declarationNode = await getAstProvider(declarationDocument)?.getNodeForRange(
+      declarationDocument,
+      location.range
+    );
+    const declarationRecord =
+      declarationNode && (await findRecord(declarationDocument, declarationNode));
+    if (declarationRecord) {
+      return { document: declarationDocument, record: declarationRecord };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the signature of the function `node` declares, which tells overloads apart: the types of its parameters,
+ * without their names and default arguments, and whether the function is const.
+ */
+function getSignature(document: vscode.TextDocument, node: ASTNode): string {
+  const parameters = getParameters(node);
+  const types = parameters.map((parameter) => {
+    const range = astConverter.asRange(parameter.range!);
+    const defaultArgument = parameter.children?.find(
+      (child) => child.role === 'expression' && child.range
+    );
+    let text = document.getText(
+      defaultArgument
+        ? new vscode.Range(range.start, astConverter.asRange(defaultArgument.range!).start)
+        : range
+    );
+    if (defaultArgument) {
+      text = text.slice(0, text.lastIndexOf('='));
+    }
+    if (parameter.detail) {
+      text = text.replace(new RegExp(`(?<!\\w)${escapeRegExp(parameter.detail)}(?!\\w)`), '');
+    }
+    return text
+      .replace(/\s*([*&,<>()[\]])\s*/g, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+  });
+
+  // The qualifiers follow the parameters, and come before the body of a definition.
+  const body = node.children?.find((child) => child.kind === 'Compound' && child.range);
+  const qualifiers = document.getText(
+    new vscode.Range(
+      parameters.length > 0
+        ? astConverter.asRange(parameters[parameters.length - 1].range!).end
+        : getSymbolNamePosition(document, node),
+      body ? astConverter.asRange(body.range!).start : astConverter.asRange(node.range!).end
+    )
+  );
+  return `(${types.join(', ')})${/\)\s*const\b/.test(qualifiers) ? ' const' : ''}`;
+}
+
+/**
+ * Goes to a base or derived class of the current class, picked from a list if there are several. On a method, goes to
+ * the method it overrides or to one of its overrides instead.
+ */
+abstract class GoToRelatedType extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  override isJump = true;
+  protected abstract readonly direction: 'base' | 'derived';
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const document = vimState.document;
+    const currentNode = vimState.currentAstNode;
+    const method = currentNode && FunctionKinds.has(currentNode.kind) ? currentNode : undefined;
+    const { document: recordDocument, record } = method
+      ? (await getMethodClass(document, method)) ?? { document, record: undefined }
+      : { document, record: currentNode?.kind === 'CXXRecord' ? currentNode : undefined };
+    const client = globalThis.clangContext?.client;
+    if (!record || !client) {
+      StatusBar.setText(vimState, 'Only classes and methods have a type hierarchy', true);
+      return;
+    }
+
+    // A definition outside of its class is named by its qualified name, e.g. `Foo::bar`.
+    const methodName = method?.detail?.split('::').pop();
+    const signature = method && getSignature(document, method);
+    const methodSignature = `${methodName}${signature}`;
+    const classes = await getRelatedTypes(
+      client,
+      recordDocument,
+      getSymbolNamePosition(recordDocument, record),
+      this.direction === 'base' ? TypeHierarchyDirection.Parents : TypeHierarchyDirection.Children
+    );
+    const targets: Array<vscode.QuickPickItem & { location: vscode.Location }> = [];
+    for (const relatedClass of classes) {
+      const description = vscode.workspace.asRelativePath(relatedClass.location.uri);
+      if (!method) {
+        targets.push({ label: relatedClass.name, description, location: relatedClass.location });
+        continue;
+      }
+
+      const classDocument = await vscode.workspace.openTextDocument(relatedClass.location.uri);
+      const classNode = await getAstProvider(classDocument)?.getNodeForRange(
+        classDocument,
+        relatedClass.location.range
+      );
+      const relatedMethod = classNode?.children?.find(
+        (child) =>
+          FunctionKinds.has(child.kind) &&
+          child.detail === methodName &&
+          child.range &&
+          getSignature(classDocument, child) === signature
+      );
+      if (relatedMethod) {
+        targets.push({
+          label: `${relatedClass.name}::${methodSignature}`,
+          description,
+          location: new vscode.Location(
+            relatedClass.location.uri,
+            astConverter.asRange(relatedMethod.range!)
+          ),
+        });
+      }
+    }
+
+    const related = this.direction === 'base' ? 'Base' : 'Derived';
+    if (targets.length === 0) {
+      StatusBar.setText(
+        vimState,
+        method
+          ? `No ${related.toLowerCase()} class of ${record.detail} declares ${methodSignature}`
+          : `${record.detail} has no ${related.toLowerCase()} classes`,
+        true
+      );
+      return;
+    }
+    const target =
+      targets.length === 1
+        ? targets[0]
+        : await vscode.window.showQuickPick(targets, {
+            placeHolder: `${related} ${method ? 'methods' : 'classes'} of ${
+              method ? methodSignature : record.detail
+            }`,
+          });
+    if (target) {
+      await selectNodeAt(
+        vimState,
+        target.location.uri,
+        target.location.range,
+        method ? FunctionKinds : new Set(['CXXRecord'])
+      );
+    }
+  }
+}
+
+@RegisterAction
+class GoToBaseType extends GoToRelatedType {
+  keys = ['g', 'b'];
+  protected readonly direction = 'base';
+}
+
+@RegisterAction
+class GoToDerivedType extends GoToRelatedType {
+  keys = ['g', 'd'];
+  protected readonly direction = 'derived';
+}
+
+const callKinds = new Set(['Call', 'CXXMemberCall']);
+
+@RegisterAction
+class GoToCallee extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['g', 'o'];
+  override isJump = true;
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    let callee =
+      currentNode && callKinds.has(currentNode.kind) ? currentNode.children?.[0] : undefined;
+    while (callee?.kind === 'ImplicitCast') {
+      callee = callee.children?.[0];
+    }
+    const client = globalThis.clangContext?.client;
+    if (!callee?.range || !client) {
+      StatusBar.setText(vimState, 'Only calls have a callee', true);
+      return;
+    }
+
+    const [item] = await prepareCallHierarchy(
+      client,
+      vimState.document,
+      getSymbolNamePosition(vimState.document, callee)
+    );
+    if (!item) {
+      StatusBar.setText(vimState, 'The function this calls is unknown', true);
+      return;
+    }
+    await selectNodeAt(
+      vimState,
+      vscode.Uri.parse(item.uri),
+      client.protocol2CodeConverter.asRange(item.selectionRange),
+      FunctionKinds
+    );
+  }
+}
+
+@RegisterAction
+class GoToCaller extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['g', 'i'];
+  override isJump = true;
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const document = vimState.document;
+    const currentNode = vimState.currentAstNode;
+    const client = globalThis.clangContext?.client;
+    if (!currentNode || !FunctionKinds.has(currentNode.kind) || !client) {
+      StatusBar.setText(vimState, 'Only functions have callers', true);
+      return;
+    }
+
+    const [item] = await prepareCallHierarchy(
+      client,
+      document,
+      getSymbolNamePosition(document, currentNode)
+    );
+    const calls = item ? await getCalls(client, item, 'incoming') : [];
+    const sites = calls.flatMap((call) =>
+      call.fromRanges.map((range) => {
+        const location = new vscode.Location(
+          vscode.Uri.parse(call.item.uri),
+          client.protocol2CodeConverter.asRange(range)
+        );
+        return {
+          label: call.item.name,
+          description: `${vscode.workspace.asRelativePath(location.uri)}:${range.start.line + 1}`,
+          location,
+        };
+      })
+    );
+    if (sites.length === 0) {
+      StatusBar.setText(vimState, `${currentNode.detail} has no callers`, true);
+      return;
+    }
+
+    const site =
+      sites.length === 1
+        ? sites[0]
+        : await vscode.window.showQuickPick(sites, {
+            placeHolder: `Calls to ${currentNode.detail}`,
+          });
+    if (site) {
+      await selectNodeAt(vimState, site.location.uri, site.location.range, callKinds);
+    }
+  }
+}
+
+/**
+ * Returns the offset right after the string or character literal, or the comment, which starts at offset `i` of
+ * `text`, or `i` if none does.
+ */
+function skipLiteralOrComment(text: string, i: number): number {
+  if (text[i] === '"' || text[i] === "'") {
+    let end = i + 1;
+    while (end < text.length && text[end] !== text[i] && text[end] !== '\n') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    return Math.min(end + 1, text.length);
+  }
+  if (text.startsWith('//', i)) {
+    const end = text.indexOf('\n', i);
+    return end === -1 ? text.length : end;
+  }
+  if (text.startsWith('/*', i)) {
+    const end = text.indexOf('*/', i + 2);
+    return end === -1 ? text.length : end + 2;
+  }
+  return i;
+}
+
+/**
+ * Splits a parameter list at the commas which aren't nested in parentheses, brackets, braces or template arguments,
+ * nor part of a literal or a comment. `<` and `>` only count as brackets before the default argument of a parameter,
+ * where they can't be operators.
+ */
+export function splitList(text: string): string[] {
+  const items: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let inDefaultArgument = false;
+  for (let i = 0; i < text.length; i++) {
+    const end = skipLiteralOrComment(text, i);
+    if (end !== i) {
+      i = end - 1;
+    } else if ('([{'.includes(text[i]) || (text[i] === '<' && !inDefaultArgument)) {
+      depth++;
+    } else if (')]}'.includes(text[i]) || (text[i] === '>' && !inDefaultArgument)) {
+      depth--;
+    } else if (text[i] === '=' && depth === 0) {
+      inDefaultArgument = true;
+    } else if (text[i] === ',' && depth === 0) {
+      items.push(text.slice(start, i).trim());
+      start = i + 1;
+      inDefaultArgument = false;
+    }
+  }
+  items.push(text.slice(start).trim());
+  return items.filter((item) => item.length > 0);
+}
+
+/**
+ * Returns the range between the parentheses of a parameter or argument list: the first pair after `from`, skipping
+ * those which close before `last`, the end of the last parameter or argument, if there is one, e.g. the ones in the
+ * name of `operator()`. Parentheses in literals and comments don't count.
+ */
+export function getListRange(
+  document: vscode.TextDocument,
+  from: Position,
+  last?: Position
+): vscode.Range | undefined {
+  const text = document.getText();
+  const lastOffset = last && document.offsetAt(last);
+  let open = -1;
+  let depth = 0;
+  for (let i = document.offsetAt(from); i < text.length; i++) {
+    const end = skipLiteralOrComment(text, i);
+    if (end !== i) {
+      i = end - 1;
+    } else if (text[i] === '(') {
+      if (depth === 0) {
+        open = i;
+      }
+      depth++;
+    } else if (text[i] === ')' && depth > 0) {
+      depth--;
+      if (depth === 0 && (lastOffset === undefined || i >= lastOffset)) {
+        return new vscode.Range(document.positionAt(open + 1), document.positionAt(i));
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A parameter of the new signature: either one of the old ones, by index, which keeps whatever text each
+ * declaration and call site has for it, or a new one, for which calls get a placeholder argument.
+ */
+type SignatureParameter = { name: string } & ({ oldIndex: number } | { text: string });
+
+/**
+ * Works out the replacement of the parameter list of a declaration, or of the argument list of a call, which the
+ * reference at `range` is the name of. Returns undefined for other references, e.g. taking the function's address.
+ */
+async function getSignatureEdit(
+  document: vscode.TextDocument,
+  range: vscode.Range,
+  parameters: SignatureParameter[]
+): Promise<vscode.TextEdit | undefined> {
+  const getText = (item: ASTNode | undefined) =>
+    item && document.getText(astConverter.asRange(item.range!));
+  const provider = getAstProvider(document);
+  let node = (await provider?.getNodeForRange(document, range)) ?? null;
+  // The name of a call is a reference, perhaps behind an implicit cast, or a member expression.
+  for (let depth = 0; node && depth < 3; depth++) {
+    if (FunctionKinds.has(node.kind)) {
+      const oldParameters = getParameters(node);
+      const last = oldParameters[oldParameters.length - 1];
+      const listRange = getListRange(
+        document,
+        range.start,
+        last && astConverter.asPosition(last.range!.end)
+      );
+      const text = parameters
+        .map((parameter) =>
+          'oldIndex' in parameter ? getText(oldParameters[parameter.oldIndex]) : parameter.text
+        )
+        .join(', ');
+      return listRange && new vscode.TextEdit(listRange, text);
+    }
+
+    const callee = node.children?.[0];
+    if (['Call', 'CXXMemberCall'].includes(node.kind) && callee?.range) {
+      const calleeRange = astConverter.asRange(callee.range);
+      if (!calleeRange.contains(range)) {
+        return undefined;
+      }
+      const oldArguments = node.children!.slice(1).filter((child) => child.range);
+      const listRange = new vscode.Range(
+        getListRange(document, calleeRange.end)?.start ?? calleeRange.end,
+        astConverter.asPosition(node.range!.end).translate(0, -1)
+      );
+      const newArguments = parameters.map((parameter) =>
+        'oldIndex' in parameter ? getText(oldArguments[parameter.oldIndex]) : undefined
+      );
+      // Parameters whose default argument was left out can stay so as long as no argument follows them.
+      while (newArguments.length > 0 && newArguments[newArguments.length - 1] === undefined) {
+        const parameter = parameters[newArguments.length - 1];
+        if (!('oldIndex' in parameter)) {
+          break;
+        }
+        newArguments.pop();
+      }
+      const text = newArguments
+        .map((argument, i) => argument ?? `/* ${parameters[i].name} */`)
+        .join(', ');
+      return new vscode.TextEdit(listRange, text);
+    }
+
+    node = await provider!.getParent(document, node);
+  }
+  return undefined;
+}
+
+@RegisterAction
+class ChangeFunctionSignature extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['C'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    // Start from the prototype of a function, or from the function or one of the parameters around it.
+    let node = vimState.currentAstNode;
+    if (node?.kind === 'ParmVar') {
+      node = await getParentAstNode(node, vimState);
+    }
+    if (node && FunctionKinds.has(node.kind)) {
+      node = node.children?.find((child) => child.kind === 'FunctionProto') ?? null;
+    }
+    const functionNode = node?.kind === 'FunctionProto' && (await getParentAstNode(node, vimState));
+    if (!node || !functionNode || !FunctionKinds.has(functionNode.kind)) {
+      StatusBar.setText(vimState, 'Changing a signature requires a function prototype', true);
+      return;
+    }
+
+    const document = vimState.document;
+    const oldParameters = getParameters(functionNode);
+    const newText = await vscode.window.showInputBox({
+      prompt: `Parameters of ${functionNode.detail}, reordered, added to or removed from`,
+      value: oldParameters
+        .map((parameter) => document.getText(astConverter.asRange(parameter.range!)))
+        .join(', '),
+    });
+    if (newText === undefined) {
+      return;
+    }
+
+    // Old parameters are recognised by name, or by their text if they have none.
+    const parameters: SignatureParameter[] = splitList(newText).map((text) => {
+      const name = /(\w+)\s*(\[[^\]]*\]\s*)*(=.*)?$/.exec(text)?.[1] ?? '';
+      const oldIndex = oldParameters.findIndex((parameter) =>
+        parameter.detail
+          ? parameter.detail === name
+          : document.getText(astConverter.asRange(parameter.range!)) === text
+      );
+      return oldIndex === -1 ? { text, name } : { oldIndex, name };
+    });
+
+    const references =
+      (await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+        'vscode.executeReferenceProvider',
+        document.uri,
+        getSymbolNamePosition(document, functionNode)
+      )) ?? [];
+    const edit = new vscode.WorkspaceEdit();
+    let skipped = 0;
+    for (const reference of references) {
+      const referenceDocument = await vscode.workspace.openTextDocument(reference.uri);
+      const textEdit = await getSignatureEdit(referenceDocument, reference.range, parameters);
+      // A call nested in the arguments of another can't be edited along with it, so it is left for the user to fix.
+      const overlaps = edit
+        .get(reference.uri)
+        .some((other) => textEdit && other.range.intersection(textEdit.range));
+      if (textEdit && !overlaps) {
+        edit.set(reference.uri, [...edit.get(reference.uri), textEdit]);
+      } else {
+        skipped++;
+      }
+    }
+
+    vimState.currentAstNode = node;
+    const path = await getAstNodePath(vimState);
+    if (!(await applyEditWithPreview(edit, `Change the signature of ${functionNode.detail}`))) {
+      return;
+    }
+    vimState.pendingAstNodePath = path ?? null;
+    if (skipped > 0) {
+      StatusBar.setText(
+        vimState,
+        `${skipped} references to ${functionNode.detail} were left unchanged`,
+        true
+      );
+    }
+
+    // The preview may have moved the focus to another editor, so make sure the changes to this document are recorded
+    // as a single step.
+    vimState.historyTracker.addChange(true);
+    vimState.historyTracker.finishCurrentStep();
+  }
+}
+
+/**
+ * Returns where the start (or the end, if `isEnd`) of a node ends up after `change`. A node whose text is replaced
+ * covers whatever replaces it, while text inserted right before or after a node stays outside of it.
+ */
+export function mapNodePosition(
+  position: Position,
+  change: vscode.TextDocumentContentChangeEvent,
+  isEnd: boolean
+): Position {
+  const { start, end } = change.range;
+  if (position.isBefore(start) || (position.isEqual(start) && (isEnd || !change.range.isEmpty))) {
+    return position;
+  }
+  const newEnd = advancePosition(start, change.text);
+  if (position.isBefore(end)) {
+    return isEnd ? newEnd : start;
+  }
+  return position.line === end.line
+    ? new Position(newEnd.line, newEnd.character + position.character - end.character)
+    : new Position(position.line + newEnd.line - end.line, position.character);
+}
+
+@RegisterAction
+class ApplyAstNodeCodeAction extends BaseCommand {
+  modes = [Mode.Structural];
+  override requiresAst = true;
+  keys = ['a'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    if (!currentNode) {
+      return;
+    }
+
+    const document = vimState.document;
+    const range = astConverter.asRange(currentNode.range!);
+    const actions = (
+      (await vscode.commands.executeCommand<Array<vscode.CodeAction | vscode.Command> | undefined>(
+        'vscode.executeCodeActionProvider',
+        document.uri,
+        range
+      )) ?? []
+    ).filter((action) => !(action instanceof vscode.CodeAction && action.disabled));
+    if (actions.length === 0) {
+      StatusBar.setText(vimState, `No code actions for ${currentNode.kind}`, true);
+      return;
+    }
+
+    const item = await vscode.window.showQuickPick(
+      actions.map((action) => ({
+        label: action.title,
+        description: action instanceof vscode.CodeAction ? action.kind?.value : undefined,
+        action,
+      })),
+      { placeHolder: `Code actions for ${currentNode.kind}` }
+    );
+    if (!item) {
+      return;
+    }
+
+    // clangd's tweaks are mostly commands which have the server send back the edit, so we can't know what they
+    // will change beforehand: watch the changes to work out what the current node turned into.
+    const changes: vscode.TextDocumentContentChangeEvent[] = [];
+    const listener = vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.document === document) {
+        changes.push(...e.contentChanges);
+      }
+    });
+    try {
+      const action = item.action;
+      if (action instanceof vscode.CodeAction) {
+        if (action.edit && !(await vscode.workspace.applyEdit(action.edit))) {
+          return;
+        }
+        if (action.command) {
+          await vscode.commands.executeCommand(
+            action.command.command,
+            ...(action.command.arguments ?? [])
+          );
+        }
+      } else {
+        await vscode.commands.executeCommand(action.command, ...(action.arguments ?? []));
+      }
+    } finally {
+      listener.dispose();
+    }
+
+    if (changes.length > 0) {
+      let start = range.start;
+      let end = range.end;
+      for (const change of changes) {
+        start = mapNodePosition(start, change, false);
+        end = mapNodePosition(end, change, true);
+      }
+      vimState.pendingAstNodeRange = new vscode.Range(start, end);
+      vimState.cursors = [new Cursor(start, start)];
+    }
+
+    // Actions such as defining a function out of line may open another editor, so make sure the changes to this
+    // document are recorded as a single step.
+    vimState.historyTracker.addChange(true);
+    vimState.historyTracker.finishCurrentStep();
+  }
+}
+
+@RegisterAction
+class EnterStructuralVisualMode extends BaseCommand {
+  modes = [Mode.Structural];
+  keys = ['v'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    if (!vimState.currentAstNode) {
+      return;
+    }
+
+    vimState.astNodeSpanAnchor = vimState.currentAstNode;
+    await vimState.setCurrentMode(Mode.StructuralVisual);
+  }
+}
+
+@RegisterAction
+class ExitStructuralVisualMode extends BaseCommand {
+  modes = [Mode.StructuralVisual];
+  keys = [['v'], ['<Esc>'], ['<C-c>'], ['<C-[>']];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    vimState.astNodeSpanAnchor = null;
+    await vimState.setCurrentMode(Mode.Structural);
+  }
+}
+
+/**
+ * Moves the active end of a structural visual selection to the previous or next sibling. Unlike sibling navigation
+ * in Structural mode, this doesn't wrap around, since the selection is a run of consecutive siblings.
+ */
+abstract class ExtendSpanToSibling extends BaseCommand {
+  modes = [Mode.StructuralVisual];
+  override requiresAst = true;
+  protected abstract readonly direction: 'previous' | 'next';
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const currentNode = vimState.currentAstNode;
+    const parentNode = await getParentAstNode(currentNode, vimState);
+    if (!currentNode || !parentNode?.children) {
+      return;
+    }
+
+    const index = parentNode.children.findIndex((child) => areEqual(child, currentNode));
+    const siblingIndex = this.direction === 'previous' ? index - 1 : index + 1;
+    if (index === -1 || siblingIndex < 0 || siblingIndex >= parentNode.children.length) {
+      return;
+    }
+
+    vimState.astNodeSpanAnchor ??= currentNode;
+    const newNode = getChildIfImplicitCast(parentNode.children[siblingIndex]);
+    vimState.cursors[0] = getCursorForNode(newNode);
+    vimState.currentAstNode = newNode;
+  }
+}
+
+@RegisterAction
+class ExtendSpanToPreviousSibling extends ExtendSpanToSibling {
+  keys = ['h'];
+  protected readonly direction = 'previous';
+}
+
+@RegisterAction
+class ExtendSpanToNextSibling extends ExtendSpanToSibling {
+  keys = ['l'];
+  protected readonly direction = 'next';
+}
+
+@RegisterAction
+class SwapSpanEnds extends BaseCommand {
+  modes = [Mode.StructuralVisual];
+  keys = ['o'];
+
+  override runsOnceForEveryCursor() {
+    return false;
+  }
+
+  public override async exec(position: Position, vimState: VimState): Promise<void> {
+    const anchor = vimState.astNodeSpanAnchor;
+    if (!anchor || !vimState.currentAstNode) {
+      return;
+    }
+
+    vimState.astNodeSpanAnchor = vimState.currentAstNode;
+    vimState.currentAstNode = anchor;
+    vimState.cursors[0] = getCursorForNode(anchor);
+  }
+}
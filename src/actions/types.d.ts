@@ -8,6 +8,7 @@ export interface IBaseAction {
   readonly actionType: ActionType;
   readonly isJump: boolean;
   readonly createsUndoPoint: boolean;
+  readonly requiresAst: boolean;
 
   keysPressed: string[];
   multicursorIndex: number | undefined;
@@ -0,0 +1,80 @@
+import * as vscode from 'vscode';
+import * as vscodelc from 'vscode-languageclient/node';
+
+import { ASTNode } from '../clangd/ast';
+import { configuration } from '../configuration/configuration';
+
+/**
+ * A source of ASTs for structural editing. Whatever the backend, nodes are handed out in the shape of clangd's
+ * `textDocument/ast` replies, so that structural commands don't need to know where they came from.
+ */
+export interface AstProvider {
+  /** Whether this provider can produce the AST of `document`. */
+  handles(document: vscode.TextDocument): boolean;
+
+  /** Returns the root of the up-to-date AST of `document`, whose children are its top-level declarations. */
+  getRoot(document: vscode.TextDocument): Promise<ASTNode | null>;
+
+  /** Returns the smallest AST node which covers `range` entirely. */
+  getNodeForRange(document: vscode.TextDocument, range: vscode.Range): Promise<ASTNode | null>;
+
+  /** Returns this provider's up-to-date copy of `node`, which may come from an earlier version of the document. */
+  find(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null>;
+
+  /** Returns the parent of `node`, or null for the root of the document. */
+  getParent(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null>;
+
+  /**
+   * Returns what the provider is still doing before the AST of `document` can be relied on, e.g. clangd's
+   * `building preamble`, or undefined once it is up to date.
+   */
+  getPendingStatus(document: vscode.TextDocument): string | undefined;
+}
+
+export type AstProviderName = 'clangd' | 'tree-sitter';
+
+const providers = new Map<AstProviderName, AstProvider>();
+
+export function registerAstProvider(
+  name: AstProviderName,
+  provider: AstProvider
+): vscode.Disposable {
+  providers.set(name, provider);
+  return new vscode.Disposable(() => {
+    if (providers.get(name) === provider) {
+      providers.delete(name);
+    }
+  });
+}
+
+/**
+ * Returns the provider configured for the language of `document`, if it is available and handles the document.
+ */
+export function getAstProvider(document: vscode.TextDocument): AstProvider | undefined {
+  const name = configuration.structuralAstProviders[document.languageId] ?? 'clangd';
+  const provider = providers.get(name);
+  return provider?.handles(document) ? provider : undefined;
+}
+
+/**
+ * Identifies a node across separately fetched copies of the same tree.
+ */
+export function getAstNodeKey(node: ASTNode): string {
+  const range = node.range;
+  return range
+    ? `${node.kind}@${range.start.line}:${range.start.character}-${range.end.line}:${range.end.character}`
+    : `${node.kind}@?`;
+}
+
+/**
+ * Converts the positions of AST nodes, which use the protocol's zero-based lines and UTF-16 columns whichever
+ * provider they come from.
+ */
+export const astConverter = {
+  asPosition(position: vscodelc.Position): vscode.Position {
+    return new vscode.Position(position.line, position.character);
+  },
+  asRange(range: vscodelc.Range): vscode.Range {
+    return new vscode.Range(this.asPosition(range.start), this.asPosition(range.end));
+  },
+};
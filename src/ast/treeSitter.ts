@@ -0,0 +1,248 @@
+import * as vscode from 'vscode';
+import Parser from 'web-tree-sitter';
+
+import { ASTNode } from '../clangd/ast';
+import { AstProvider, astConverter, getAstNodeKey, registerAstProvider } from './astProvider';
+
+interface Grammar {
+  /** The WebAssembly module, which the build copies to `out/tree-sitter` along with tree-sitter's own. */
+  wasm: string;
+  /**
+   * The clangd kinds of the node types structural commands treat specially, e.g. blocks are `Compound` and calls
+   * `Call`, so that they don't need to know which provider the nodes come from. Other types are left as they are.
+   * A type can be preceded by the type of its parent, as in `parameters identifier`, where it only has the kind there.
+   */
+  kinds: ReadonlyMap<string, string>;
+}
+
+const cKinds: Array<[string, string]> = [
+  ['compound_statement', 'Compound'],
+  ['call_expression', 'Call'],
+  ['function_definition', 'Function'],
+  ['parameter_declaration', 'ParmVar'],
+  ['struct_specifier', 'Record'],
+  ['union_specifier', 'Record'],
+];
+
+const typescriptKinds = new Map([
+  ['statement_block', 'Compound'],
+  ['call_expression', 'Call'],
+  ['function_declaration', 'Function'],
+  ['method_definition', 'CXXMethod'],
+  ['required_parameter', 'ParmVar'],
+  ['optional_parameter', 'ParmVar'],
+]);
+
+/** The bundled grammars. */
+const grammars: { [languageId: string]: Grammar } = {
+  c: { wasm: 'tree-sitter-c.wasm', kinds: new Map(cKinds) },
+  cpp: {
+    wasm: 'tree-sitter-cpp.wasm',
+    kinds: new Map([
+      ...cKinds,
+      ['optional_parameter_declaration', 'ParmVar'],
+      ['struct_specifier', 'CXXRecord'],
+      ['union_specifier', 'CXXRecord'],
+      ['class_specifier', 'CXXRecord'],
+      ['namespace_definition', 'Namespace'],
+    ]),
+  },
+  python: {
+    wasm: 'tree-sitter-python.wasm',
+    kinds: new Map([
+      ['block', 'Compound'],
+      ['call', 'Call'],
+      ['function_definition', 'Function'],
+      ['default_parameter', 'ParmVar'],
+      ['typed_parameter', 'ParmVar'],
+      ['typed_default_parameter', 'ParmVar'],
+      // Parameters without a type or a default value are bare identifiers.
+      ['parameters identifier', 'ParmVar'],
+      ['lambda_parameters identifier', 'ParmVar'],
+    ]),
+  },
+  typescript: { wasm: 'tree-sitter-typescript.wasm', kinds: typescriptKinds },
+  typescriptreact: { wasm: 'tree-sitter-tsx.wasm', kinds: typescriptKinds },
+};
+
+export function activate(context: vscode.ExtensionContext) {
+  const provider = new TreeSitterAstProvider(
+    vscode.Uri.joinPath(context.extensionUri, 'out', 'tree-sitter')
+  );
+  context.subscriptions.push(provider, registerAstProvider('tree-sitter', provider));
+}
+
+interface DocumentAst {
+  /** `document.version` the tree was parsed from. */
+  version: number;
+  root: ASTNode;
+  parents: Map<ASTNode, ASTNode>;
+  nodesByKey: Map<string, ASTNode>;
+}
+
+/**
+ * Tree-sitter has no notion of roles, so guess them from the node types the grammars have in common, which is enough
+ * to tell statements, declarations and expressions apart when swapping siblings.
+ */
+function getRole(type: string): string {
+  if (type.endsWith('statement') || type === 'block') {
+    return 'statement';
+  }
+  if (/declaration|definition|declarator|parameter/.test(type)) {
+    return 'declaration';
+  }
+  return 'expression';
+}
+
+function toAstNode(
+  node: Parser.SyntaxNode,
+  kinds: ReadonlyMap<string, string>,
+  parentType?: string
+): ASTNode {
+  const children = node.namedChildren
+    .filter((child) => child.type !== 'comment')
+    .map((child) => toAstNode(child, kinds, node.type));
+  const kind = kinds.get(`${parentType} ${node.type}`) ?? kinds.get(node.type) ?? node.type;
+  return {
+    // Parameters are declarations whatever their type, as clangd's are.
+    role: kind === 'ParmVar' ? 'declaration' : getRole(node.type),
+    kind,
+    detail: children.length === 0 ? node.text : undefined,
+    children,
+    range: {
+      start: { line: node.startPosition.row, character: node.startPosition.column },
+      end: { line: node.endPosition.row, character: node.endPosition.column },
+    },
+  };
+}
+
+/**
+ * Parses documents with the bundled WebAssembly build of tree-sitter, so that structural editing works in languages
+ * clangd doesn't handle, or in C/C++ files it can't make sense of without a compilation database.
+ */
+export class TreeSitterAstProvider implements AstProvider, vscode.Disposable {
+  private readonly grammarsUri: vscode.Uri;
+  private readonly documents = new Map<string, DocumentAst>();
+  /** A parser for each language, so that documents of different languages can be parsed concurrently. */
+  private readonly parsers = new Map<string, Promise<Parser>>();
+  private readonly disposables: vscode.Disposable[] = [];
+  private initialized: Promise<void> | undefined;
+
+  constructor(grammarsUri: vscode.Uri) {
+    this.grammarsUri = grammarsUri;
+    this.disposables.push(
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.documents.delete(document.uri.toString())
+      )
+    );
+  }
+
+  public handles(document: vscode.TextDocument): boolean {
+    return grammars[document.languageId] !== undefined;
+  }
+
+  public async getRoot(document: vscode.TextDocument): Promise<ASTNode | null> {
+    return (await this.getDocumentAst(document)).root;
+  }
+
+  public async getNodeForRange(
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): Promise<ASTNode | null> {
+    const ast = await this.getDocumentAst(document);
+    let node: ASTNode | null = null;
+    let children = ast.root.children;
+    for (;;) {
+      const child = children?.find((c) => astConverter.asRange(c.range!).contains(range));
+      if (!child) {
+        return node;
+      }
+      node = child;
+      children = child.children;
+    }
+  }
+
+  public async find(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null> {
+    const ast = await this.getDocumentAst(document);
+    return ast.parents.has(node) || node === ast.root
+      ? node
+      : ast.nodesByKey.get(getAstNodeKey(node)) ?? null;
+  }
+
+  public async getParent(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null> {
+    const found = await this.find(document, node);
+    if (!found) {
+      return null;
+    }
+    return this.documents.get(document.uri.toString())?.parents.get(found) ?? null;
+  }
+
+  public getPendingStatus(_document: vscode.TextDocument): string | undefined {
+    // Documents are parsed on demand, so their AST is never behind.
+    return undefined;
+  }
+
+  private async getDocumentAst(document: vscode.TextDocument): Promise<DocumentAst> {
+    const cached = this.documents.get(document.uri.toString());
+    if (cached?.version === document.version) {
+      return cached;
+    }
+
+    const parser = await this.getParser(document.languageId);
+    // Reparsing a whole document takes a few milliseconds, so there's no need to keep the tree up to date
+    // incrementally, and converting it straight away lets us free it.
+    const version = document.version;
+    const tree = parser.parse(document.getText());
+    let root: ASTNode;
+    try {
+      root = toAstNode(tree.rootNode, grammars[document.languageId].kinds);
+    } finally {
+      tree.delete();
+    }
+    // Like clangd's translation unit, the root has no range, so that it is never selected.
+    delete root.range;
+
+    const ast: DocumentAst = { version, root, parents: new Map(), nodesByKey: new Map() };
+    const visit = (node: ASTNode) => {
+      const key = getAstNodeKey(node);
+      if (!ast.nodesByKey.has(key)) {
+        ast.nodesByKey.set(key, node);
+      }
+      for (const child of node.children ?? []) {
+        ast.parents.set(child, node);
+        visit(child);
+      }
+    };
+    visit(root);
+    this.documents.set(document.uri.toString(), ast);
+    return ast;
+  }
+
+  private getParser(languageId: string): Promise<Parser> {
+    let parser = this.parsers.get(languageId);
+    if (!parser) {
+      this.initialized ??= Parser.init({
+        locateFile: (file: string) => vscode.Uri.joinPath(this.grammarsUri, file).fsPath,
+      });
+      parser = this.initialized.then(async () => {
+        const language = await Parser.Language.load(
+          vscode.Uri.joinPath(this.grammarsUri, grammars[languageId].wasm).fsPath
+        );
+        const languageParser = new Parser();
+        languageParser.setLanguage(language);
+        return languageParser;
+      });
+      this.parsers.set(languageId, parser);
+    }
+    return parser;
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.documents.clear();
+    for (const parser of this.parsers.values()) {
+      void parser.then((languageParser) => languageParser.delete());
+    }
+    this.parsers.clear();
+  }
+}
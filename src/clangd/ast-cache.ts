@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as vscodelc from 'vscode-languageclient/node';
+
+import { ASTNode, ASTRequestType } from './ast';
+import { AstProvider, getAstNodeKey, registerAstProvider } from '../ast/astProvider';
+import { ClangdContext } from './clangd-context';
+
+export function activate(context: ClangdContext) {
+  context.astCache = new AstCache(context);
+  context.subscriptions.push(context.astCache, registerAstProvider('clangd', context.astCache));
+}
+
+/**
+ * The AST of a single document, as last fetched from clangd, along with a parent-pointer index so that
+ * structural navigation doesn't need to go back to the server for every keystroke.
+ */
+interface DocumentAst {
+  /** `document.version` the cached tree corresponds to. */
+  version: number;
+  /** The translation unit, whose children are the document's top-level declarations. */
+  root: ASTNode;
+  parents: Map<ASTNode, ASTNode>;
+  /** Lets us find our own copy of a node that came from a separate `textDocument/ast` request. */
+  nodesByKey: Map<string, ASTNode>;
+  /** Top-level declarations that were edited since they were fetched and must be fetched again. */
+  staleDecls: Set<ASTNode>;
+  /** Whether the whole tree was fetched for the current version, in which case a lookup miss is final. */
+  complete: boolean;
+  /** Set when an edit can't be mapped onto the cached tree, in which case the whole tree is dropped. */
+  invalid: boolean;
+}
+
+function comparePositions(a: vscodelc.Position, b: vscodelc.Position): number {
+  return a.line !== b.line ? a.line - b.line : a.character - b.character;
+}
+
+/**
+ * Where `position` ends up after `change` is applied, given that it lies after the changed range.
+ */
+function shiftPosition(
+  position: vscodelc.Position,
+  change: vscode.TextDocumentContentChangeEvent
+): vscodelc.Position {
+  const insertedLines = change.text.split('\n');
+  const newEndLine = change.range.start.line + insertedLines.length - 1;
+  const newEndCharacter =
+    insertedLines.length === 1
+      ? change.range.start.character + insertedLines[0].length
+      : insertedLines[insertedLines.length - 1].length;
+
+  if (position.line === change.range.end.line) {
+    return {
+      line: newEndLine,
+      character: newEndCharacter + (position.character - change.range.end.character),
+    };
+  }
+  return {
+    line: position.line + newEndLine - change.range.end.line,
+    character: position.character,
+  };
+}
+
+function shiftNode(node: ASTNode, change: vscode.TextDocumentContentChangeEvent): void {
+  if (node.range) {
+    node.range = {
+      start: shiftPosition(node.range.start, change),
+      end: shiftPosition(node.range.end, change),
+    };
+  }
+  for (const child of node.children ?? []) {
+    shiftNode(child, change);
+  }
+}
+
+export class AstCache implements AstProvider, vscode.Disposable {
+  private readonly context: ClangdContext;
+  private readonly documents = new Map<string, DocumentAst>();
+  /** The last `textDocument/clangd.fileStatus` state of each document, keyed by URI. */
+  private readonly fileStates = new Map<string, string>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(context: ClangdContext) {
+    this.context = context;
+    this.disposables.push(
+      vscode.workspace.onDidChangeTextDocument((e) => this.onDidChangeTextDocument(e)),
+      vscode.workspace.onDidCloseTextDocument((document) =>
+        this.documents.delete(document.uri.toString())
+      )
+    );
+  }
+
+  public handles(document: vscode.TextDocument): boolean {
+    // The same as `isClangdDocument`, which we can't import without a circular dependency.
+    return (
+      vscode.languages.match(this.context.client.clientOptions.documentSelector!, document) > 0
+    );
+  }
+
+  /**
+   * Asks clangd directly for the smallest node covering `range`.
+   */
+  public async getNodeForRange(
+    document: vscode.TextDocument,
+    range: vscode.Range
+  ): Promise<ASTNode | null> {
+    const converter = this.context.client.code2ProtocolConverter;
+    const item = await this.context.client.sendRequest(ASTRequestType, {
+      textDocument: converter.asTextDocumentIdentifier(document),
+      range: converter.asRange(range),
+    });
+    return item?.range ? item : null;
+  }
+
+  /**
+   * Returns the up-to-date translation unit of `document`, fetching whatever is missing from clangd.
+   */
+  public async getRoot(document: vscode.TextDocument): Promise<ASTNode | null> {
+    return (await this.getDocumentAst(document))?.root ?? null;
+  }
+
+  /**
+   * Returns the cached node corresponding to `node`, which may come from a separate request.
+   */
+  public async find(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null> {
+    let ast = await this.getDocumentAst(document);
+    if (!ast) {
+      return null;
+    }
+
+    let found =
+      ast.parents.has(node) || node === ast.root ? node : ast.nodesByKey.get(getAstNodeKey(node));
+    if (!found && !ast.complete) {
+      // The node may belong to a declaration that was added since we last fetched the whole tree.
+      ast = await this.fetchDocumentAst(document);
+      found = ast?.nodesByKey.get(getAstNodeKey(node));
+    }
+    return found ?? null;
+  }
+
+  /**
+   * Returns the parent of `node` without going back to clangd unless the document changed.
+   */
+  public async getParent(document: vscode.TextDocument, node: ASTNode): Promise<ASTNode | null> {
+    const found = await this.find(document, node);
+    if (!found) {
+      return null;
+    }
+    return this.documents.get(document.uri.toString())?.parents.get(found) ?? null;
+  }
+
+  /**
+   * clangd reports e.g. `parsing includes, running Hover` while it builds a document, and `idle` once it's done.
+   * Actions such as our own AST requests run on the current AST, so they don't make it stale.
+   */
+  public getPendingStatus(document: vscode.TextDocument): string | undefined {
+    const state = this.fileStates.get(document.uri.toString());
+    return state && /parsing|building/.test(state) ? state : undefined;
+  }
+
+  /** Records the state clangd last reported for a document. */
+  public setFileState(uri: vscode.Uri, state: string): void {
+    this.fileStates.set(uri.toString(), state);
+  }
+
+  /** Forgets the states of all documents, when clangd stops. */
+  public clearFileStates(): void {
+    this.fileStates.clear();
+  }
+
+  private async getDocumentAst(document: vscode.TextDocument): Promise<DocumentAst | null> {
+    const ast = this.documents.get(document.uri.toString());
+    if (!ast || ast.invalid || ast.version !== document.version) {
+      return this.fetchDocumentAst(document);
+    }
+
+    if (ast.staleDecls.size > 0) {
+      for (const decl of ast.staleDecls) {
+        if (!(await this.refetchDecl(document, ast, decl))) {
+          return this.fetchDocumentAst(document);
+        }
+      }
+      ast.staleDecls.clear();
+      this.reindex(ast);
+    }
+
+    return ast;
+  }
+
+  private async fetchDocumentAst(document: vscode.TextDocument): Promise<DocumentAst | null> {
+    const version = document.version;
+    const root = await this.context.client.sendRequest(ASTRequestType, {
+      textDocument: this.context.client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+      range: null,
+    });
+    if (!root) {
+      this.documents.delete(document.uri.toString());
+      return null;
+    }
+
+    const ast: DocumentAst = {
+      version,
+      root,
+      parents: new Map(),
+      nodesByKey: new Map(),
+      staleDecls: new Set(),
+      complete: true,
+      invalid: false,
+    };
+    this.reindex(ast);
+    this.documents.set(document.uri.toString(), ast);
+    return ast;
+  }
+
+  /**
+   * Fetches a single top-level declaration again and splices it into the tree in place of the stale one.
+   */
+  private async refetchDecl(
+    document: vscode.TextDocument,
+    ast: DocumentAst,
+    decl: ASTNode
+  ): Promise<boolean> {
+    if (!decl.range) {
+      return false;
+    }
+
+    const fresh = await this.context.client.sendRequest(ASTRequestType, {
+      textDocument: this.context.client.code2ProtocolConverter.asTextDocumentIdentifier(document),
+      range: decl.range,
+    });
+    if (!fresh || fresh.kind !== decl.kind) {
+      return false;
+    }
+
+    const siblings = ast.root.children!;
+    siblings[siblings.indexOf(decl)] = fresh;
+    return true;
+  }
+
+  private reindex(ast: DocumentAst): void {
+    ast.parents.clear();
+    ast.nodesByKey.clear();
+
+    const visit = (node: ASTNode) => {
+      const key = getAstNodeKey(node);
+      // Keep the outermost of several nodes sharing a kind and range, as a top-down search would.
+      if (!ast.nodesByKey.has(key)) {
+        ast.nodesByKey.set(key, node);
+      }
+      for (const child of node.children ?? []) {
+        ast.parents.set(child, node);
+        visit(child);
+      }
+    };
+    visit(ast.root);
+  }
+
+  private onDidChangeTextDocument(e: vscode.TextDocumentChangeEvent): void {
+    const ast = this.documents.get(e.document.uri.toString());
+    if (!ast || ast.invalid || e.contentChanges.length === 0) {
+      return;
+    }
+
+    // VS Code reports the changes of a single event in reverse document order, so applying them one
+    // at a time keeps the ranges of the remaining changes valid.
+    for (const change of e.contentChanges) {
+      for (const decl of ast.root.children ?? []) {
+        if (!decl.range) {
+          ast.invalid = true;
+          return;
+        }
+
+        const range = decl.range;
+        if (comparePositions(range.end, change.range.start) < 0) {
+          // Entirely before the change.
+          continue;
+        }
+        if (comparePositions(range.start, change.range.end) > 0) {
+          // Entirely after the change.
+          shiftNode(decl, change);
+          continue;
+        }
+        if (
+          comparePositions(range.start, change.range.start) <= 0 &&
+          comparePositions(range.end, change.range.end) >= 0
+        ) {
+          // The change is contained in this declaration: we only need to fetch this one again.
+          decl.range = { start: range.start, end: shiftPosition(range.end, change) };
+          ast.staleDecls.add(decl);
+          continue;
+        }
+
+        // The change straddles declarations.
+        ast.invalid = true;
+        return;
+      }
+    }
+
+    ast.version = e.document.version;
+    ast.complete = false;
+    this.reindex(ast);
+  }
+
+  dispose() {
+    this.disposables.forEach((d) => d.dispose());
+    this.documents.clear();
+    this.fileStates.clear();
+  }
+}
@@ -3,11 +3,13 @@
 import * as vscode from 'vscode';
 import * as vscodelc from 'vscode-languageclient/node';
 
+import {getAstNodeKey} from '../ast/astProvider';
 import {ClangdContext} from './clangd-context';
 
 export function activate(context: ClangdContext) {
   const feature = new ASTFeature(context);
   context.client.registerFeature(feature);
+  context.astFeature = feature;
 }
 
 // The wire format: we send a position, and get back a tree of ASTNode.
@@ -23,15 +25,24 @@ export interface ASTNode {
   children?: Array<ASTNode>;
   range?: vscodelc.Range;
 }
-const ASTRequestType =
+export const ASTRequestType =
     new vscodelc.RequestType<ASTParams, ASTNode|null, void>('textDocument/ast');
 
-class ASTFeature implements vscodelc.StaticFeature {
+// Kinds of the nodes that the view shows when following the structural cursor.
+// The tree-sitter provider gives functions the same kinds.
+export const FunctionKinds = new Set([
+  'Function', 'CXXMethod', 'CXXConstructor', 'CXXDestructor', 'CXXConversion'
+]);
+
+export class ASTFeature implements vscodelc.StaticFeature {
+  // The adapter holds the currently inspected node.
+  private readonly adapter = new TreeAdapter();
+  private readonly tree: vscode.TreeView<ASTNode>;
+
   constructor(private context: ClangdContext) {
-    // The adapter holds the currently inspected node.
-    const adapter = new TreeAdapter();
+    const adapter = this.adapter;
     // Create the AST view, showing data from the adapter.
-    const tree =
+    const tree = this.tree =
         vscode.window.createTreeView('clangd.ast', {treeDataProvider: adapter});
     context.subscriptions.push(
         tree,
@@ -67,7 +78,41 @@ class ASTFeature implements vscodelc.StaticFeature {
         // Clicking "close" will empty the adapter, which in turn hides the
         // view.
         vscode.commands.registerCommand(
-            'clangd.ast.close', () => adapter.setRoot(undefined, undefined)));
+            'clangd.ast.close', () => adapter.setRoot(undefined, undefined)),
+        // In follow mode, the view shows the function around the structural
+        // cursor rather than what "Show AST" was run on.
+        vscode.commands.registerCommand('clangd.ast.follow',
+                                        () => this.setFollowing(true)),
+        vscode.commands.registerCommand('clangd.ast.unfollow',
+                                        () => this.setFollowing(false)));
+  }
+
+  get following(): boolean { return this.adapter.following; }
+
+  private setFollowing(following: boolean) {
+    this.adapter.following = following;
+    vscode.commands.executeCommand('setContext', 'clangd.ast.following',
+                                   following);
+  }
+
+  // Shows the function around `node` and selects `node` in it, if following
+  // the structural cursor. `ancestors` lead from the top of the document to
+  // `node`.
+  async follow(doc: vscode.Uri, node: ASTNode, ancestors: ASTNode[]) {
+    if (!this.following)
+      return;
+    const path = [...ancestors, node];
+    const root =
+        path.slice().reverse().find((n) => FunctionKinds.has(n.kind)) ??
+        path[0];
+    if (!this.adapter.isShowing(root, doc))
+      this.adapter.setRoot(root, doc);
+    const item = this.adapter.find(node);
+    if (item)
+      // The view may not have caught up with a new root yet, in which case
+      // the next move will reveal the node.
+      await this.tree.reveal(item, {select: true, focus: false})
+          .then(undefined, () => {});
   }
 
   fillClientCapabilities(capabilities: vscodelc.ClientCapabilities) {}
@@ -121,9 +166,37 @@ function describe(role: string, kind: string): string {
 class TreeAdapter implements vscode.TreeDataProvider<ASTNode> {
   private root?: ASTNode;
   private doc?: vscode.Uri;
+  private _following = false;
 
   hasRoot(): boolean { return this.root !== undefined; }
 
+  isShowing(root: ASTNode, doc: vscode.Uri): boolean {
+    return this.root === root && this.doc?.toString() === doc.toString();
+  }
+
+  // When following the structural cursor, clicking a node selects it.
+  get following(): boolean { return this._following; }
+  set following(following: boolean) {
+    this._following = following;
+    this._onDidChangeTreeData.fire(/*items changed*/ null);
+  }
+
+  // Finds our copy of `node`, which may come from a separate request.
+  find(node: ASTNode): ASTNode|undefined {
+    const key = getAstNodeKey(node);
+    function findUnder(parent: ASTNode): ASTNode|undefined {
+      if (getAstNodeKey(parent) === key)
+        return parent;
+      for (const child of parent.children ?? []) {
+        const result = findUnder(child);
+        if (result)
+          return result;
+      }
+      return undefined;
+    }
+    return this.root && findUnder(this.root);
+  }
+
   setRoot(newRoot: ASTNode|undefined, newDoc: vscode.Uri|undefined) {
     this.root = newRoot;
     this.doc = newDoc;
@@ -143,8 +216,15 @@ class TreeAdapter implements vscode.TreeDataProvider<ASTNode> {
     if (icon)
       item.iconPath = new vscode.ThemeIcon(icon);
 
-    // Clicking on the node should highlight it in the source.
-    if (node.range && this.doc) {
+    // Clicking on the node should highlight it in the source, or make it the
+    // current structural node.
+    if (node.range && this.doc && this.following) {
+      item.command = {
+        title: 'Select',
+        command: 'vim.selectAstNode',
+        arguments: [{uri: this.doc, node}],
+      };
+    } else if (node.range && this.doc) {
       item.command = {
         title: 'Jump to',
         command: 'vscode.open',
@@ -0,0 +1,207 @@
+import * as vscode from 'vscode';
+import * as vscodelc from 'vscode-languageclient/node';
+
+import { ClangdContext } from './clangd-context';
+
+export function activate(context: ClangdContext) {
+  const feature = new CallHierarchyFeature(context);
+  context.client.registerFeature(feature);
+}
+
+export type CallDirection = 'incoming' | 'outgoing';
+
+/**
+ * A call between two functions: `item` is the caller for incoming calls and the callee for outgoing ones, and
+ * `fromRanges` are where the calls are, in the caller either way.
+ */
+export interface Call {
+  item: vscodelc.CallHierarchyItem;
+  fromRanges: vscodelc.Range[];
+}
+
+/**
+ * Returns the functions declared or called at `position`, usually just the one.
+ */
+export async function prepareCallHierarchy(
+  client: vscodelc.LanguageClient,
+  document: vscode.TextDocument,
+  position: vscode.Position
+): Promise<vscodelc.CallHierarchyItem[]> {
+  return (
+    (await client.sendRequest(
+      vscodelc.CallHierarchyPrepareRequest.type,
+      client.code2ProtocolConverter.asTextDocumentPositionParams(document, position)
+    )) ?? []
+  );
+}
+
+/**
+ * Returns the calls to `item` (incoming) or from it (outgoing).
+ */
+export async function getCalls(
+  client: vscodelc.LanguageClient,
+  item: vscodelc.CallHierarchyItem,
+  direction: CallDirection
+): Promise<Call[]> {
+  if (direction === 'incoming') {
+    const calls = await client.sendRequest(vscodelc.CallHierarchyIncomingCallsRequest.type, {
+      item,
+    });
+    return (calls ?? []).map((call) => ({ item: call.from, fromRanges: call.fromRanges }));
+  }
+  const calls = await client.sendRequest(vscodelc.CallHierarchyOutgoingCallsRequest.type, {
+    item,
+  });
+  return (calls ?? []).map((call) => ({ item: call.to, fromRanges: call.fromRanges }));
+}
+
+class CallHierarchyFeature implements vscodelc.StaticFeature {
+  constructor(context: ClangdContext) {
+    new CallHierarchyProvider(context);
+  }
+
+  fillClientCapabilities(_capabilities: vscodelc.ClientCapabilities) {}
+  fillInitializeParams(_params: vscodelc.InitializeParams) {}
+
+  initialize(capabilities: vscodelc.ServerCapabilities) {
+    vscode.commands.executeCommand(
+      'setContext',
+      'clangd.enableCallHierarchy',
+      !!capabilities.callHierarchyProvider
+    );
+  }
+  getState(): vscodelc.FeatureState {
+    return { kind: 'static' };
+  }
+  dispose() {}
+}
+
+/**
+ * A function in the call hierarchy view, under the function it calls or is called by.
+ */
+interface CallHierarchyNode extends Call {
+  parent?: CallHierarchyNode;
+  /** Resolved when the node is first expanded. */
+  children?: CallHierarchyNode[];
+}
+
+class CallHierarchyProvider implements vscode.TreeDataProvider<CallHierarchyNode> {
+  private readonly client: vscodelc.LanguageClient;
+  private readonly treeView: vscode.TreeView<CallHierarchyNode>;
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<CallHierarchyNode | null>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  private root?: CallHierarchyNode;
+  private direction: CallDirection = 'incoming';
+
+  constructor(context: ClangdContext) {
+    this.client = context.client;
+    this.treeView = vscode.window.createTreeView('clangd.callHierarchyView', {
+      treeDataProvider: this,
+    });
+    context.subscriptions.push(
+      this.treeView,
+      vscode.commands.registerTextEditorCommand('clangd.callHierarchy', (editor) =>
+        this.reveal(editor)
+      ),
+      vscode.commands.registerCommand('clangd.callHierarchy.close', () => this.close()),
+      vscode.commands.registerCommand('clangd.callHierarchy.gotoItem', (node: CallHierarchyNode) =>
+        this.gotoItem(node)
+      ),
+      vscode.commands.registerCommand('clangd.callHierarchy.viewIncoming', () =>
+        this.setDirection('incoming')
+      ),
+      vscode.commands.registerCommand('clangd.callHierarchy.viewOutgoing', () =>
+        this.setDirection('outgoing')
+      )
+    );
+  }
+
+  public getTreeItem(node: CallHierarchyNode): vscode.TreeItem {
+    const treeItem = new vscode.TreeItem(
+      node.item.name,
+      node.children?.length === 0
+        ? vscode.TreeItemCollapsibleState.None
+        : node === this.root
+        ? vscode.TreeItemCollapsibleState.Expanded
+        : vscode.TreeItemCollapsibleState.Collapsed
+    );
+    treeItem.description = node.item.detail;
+    treeItem.iconPath = new vscode.ThemeIcon('symbol-function');
+    treeItem.command = {
+      arguments: [node],
+      command: 'clangd.callHierarchy.gotoItem',
+      title: 'Go to',
+    };
+    return treeItem;
+  }
+
+  public getParent(node: CallHierarchyNode): CallHierarchyNode | undefined {
+    return node.parent;
+  }
+
+  public async getChildren(node?: CallHierarchyNode): Promise<CallHierarchyNode[]> {
+    if (!this.root) {
+      return [];
+    }
+    if (!node) {
+      return [this.root];
+    }
+    node.children ??= (await getCalls(this.client, node.item, this.direction)).map((call) => ({
+      ...call,
+      parent: node,
+    }));
+    return node.children;
+  }
+
+  /**
+   * Goes to the first call a node stands for, or to the root function itself.
+   */
+  private async gotoItem(node: CallHierarchyNode): Promise<void> {
+    // The calls are in the caller, which is the parent of outgoing calls.
+    const caller = this.direction === 'incoming' ? node : node.parent;
+    const [uri, range] =
+      caller && node.fromRanges.length > 0
+        ? [caller.item.uri, node.fromRanges[0]]
+        : [node.item.uri, node.item.selectionRange];
+    const selection = this.client.protocol2CodeConverter.asRange(range);
+    const editor = await vscode.window.showTextDocument(vscode.Uri.parse(uri), { selection });
+    editor.revealRange(selection, vscode.TextEditorRevealType.InCenter);
+  }
+
+  private setDirection(direction: CallDirection): void {
+    this.direction = direction;
+    if (this.root) {
+      this.root = { item: this.root.item, fromRanges: [] };
+      this.onDidChangeTreeDataEmitter.fire(null);
+    }
+  }
+
+  private async reveal(editor: vscode.TextEditor): Promise<void> {
+    const [item] = await prepareCallHierarchy(
+      this.client,
+      editor.document,
+      editor.selection.active
+    );
+    if (!item) {
+      vscode.window.showInformationMessage('No call hierarchy available for selection');
+      return;
+    }
+
+    // Makes the view visible, see its "when" clause in package.json.
+    await vscode.commands.executeCommand('setContext', 'clangd.callHierarchyVisible', true);
+    this.root = { item, fromRanges: [] };
+    this.onDidChangeTreeDataEmitter.fire(null);
+    await vscode.commands.executeCommand('workbench.view.explorer');
+    this.treeView.reveal(this.root, { focus: true, expand: true }).then(
+      () => {},
+      (reason) => console.log(`Warning: TreeView.reveal() failed for reason: ${reason}`)
+    );
+  }
+
+  private close(): void {
+    vscode.commands.executeCommand('setContext', 'clangd.callHierarchyVisible', false);
+    this.root = undefined;
+    this.onDidChangeTreeDataEmitter.fire(null);
+  }
+}
@@ -2,9 +2,13 @@ import * as vscode from 'vscode';
 import * as vscodelc from 'vscode-languageclient/node';
 
 import * as ast from './ast';
+import * as astCache from './ast-cache';
+import * as callHierarchy from './call-hierarchy';
+import * as compileCommands from './compile-commands';
 import * as config from './config';
 import * as configFileWatcher from './config-file-watcher';
 import * as fileStatus from './file-status';
+import * as inlayHints from './inlay-hints';
 import * as install from './install';
 import * as memoryUsage from './memory-usage';
 import * as openConfig from './open-config';
@@ -57,6 +61,8 @@ class EnableEditsNearCursorFeature implements vscodelc.StaticFeature {
 export class ClangdContext implements vscode.Disposable {
   subscriptions: vscode.Disposable[] = [];
   client!: ClangdLanguageClient;
+  astCache!: astCache.AstCache;
+  astFeature!: ast.ASTFeature;
 
   async activate(globalStoragePath: string,
                  outputChannel: vscode.OutputChannel) {
@@ -156,9 +162,13 @@ export class ClangdContext implements vscode.Disposable {
             config.get<boolean>('restartAfterCrash') ? /*default*/ 4 : 0);
     this.client.registerFeature(new EnableEditsNearCursorFeature);
     typeHierarchy.activate(this);
+    callHierarchy.activate(this);
+    inlayHints.activate(this);
     memoryUsage.activate(this);
     ast.activate(this);
+    astCache.activate(this);
     openConfig.activate(this);
+    compileCommands.activate(this);
     this.client.start();
     console.log('Clang Language Server is now active!');
     fileStatus.activate(this);
@@ -0,0 +1,231 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { existsAsync, readFileAsync, writeFileAsync } from 'platform/fs';
+
+import { ClangdContext } from './clangd-context';
+import * as config from './config';
+
+const compileCommandsDirFlag = '--compile-commands-dir';
+
+export function activate(context: ClangdContext) {
+  context.subscriptions.push(
+    vscode.commands.registerCommand('clangd.compileCommands.pick', () => pickCompilationDatabase()),
+    vscode.commands.registerCommand('clangd.compileCommands.generateFlags', () =>
+      generateCompileFlags()
+    ),
+    vscode.commands.registerCommand('clangd.compileCommands.validate', () =>
+      validateCompilationDatabase(context)
+    )
+  );
+}
+
+/** An entry of `compile_commands.json`, where `file` may be relative to `directory`. */
+interface CompileCommand {
+  directory: string;
+  file: string;
+}
+
+async function findCompilationDatabases(): Promise<vscode.Uri[]> {
+  const databases = await vscode.workspace.findFiles(
+    '**/compile_commands.json',
+    '**/node_modules/**'
+  );
+  return databases.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Returns the directory `clangd.arguments` tells clangd to look for `compile_commands.json` in, if any. A relative
+ * directory is resolved against the workspace root, which clangd runs in.
+ */
+export function getCompileCommandsDir(): string | undefined {
+  const args = config.get<string[]>('arguments');
+  for (let i = 0; i < args.length; i++) {
+    const dir = args[i].startsWith(`${compileCommandsDirFlag}=`)
+      ? args[i].slice(compileCommandsDirFlag.length + 1)
+      : args[i] === compileCommandsDirFlag
+      ? args[i + 1]
+      : undefined;
+    if (dir !== undefined) {
+      return path.resolve(vscode.workspace.rootPath || process.cwd(), dir);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Makes `clangd.arguments` tell clangd to look for `compile_commands.json` in `dir`, in place of any directory they
+ * told it before.
+ */
+export async function setCompileCommandsDir(dir: string): Promise<void> {
+  // Read the arguments without substitutions, so that the other ones are written back as they were.
+  const args = vscode.workspace.getConfiguration('clangd').get<string[]>('arguments') ?? [];
+  const otherArgs = args.filter(
+    (arg, i) =>
+      !arg.startsWith(`${compileCommandsDirFlag}=`) &&
+      arg !== compileCommandsDirFlag &&
+      args[i - 1] !== compileCommandsDirFlag
+  );
+  await config.update(
+    'arguments',
+    [...otherArgs, `${compileCommandsDirFlag}=${dir}`],
+    vscode.workspace.workspaceFolders
+      ? vscode.ConfigurationTarget.Workspace
+      : vscode.ConfigurationTarget.Global
+  );
+}
+
+async function chooseCompilationDatabase(
+  databases: vscode.Uri[],
+  placeHolder: string
+): Promise<vscode.Uri | undefined> {
+  if (databases.length <= 1) {
+    return databases[0];
+  }
+  const currentDir = getCompileCommandsDir();
+  const item = await vscode.window.showQuickPick(
+    databases.map((uri) => ({
+      label: vscode.workspace.asRelativePath(uri),
+      description: currentDir === path.dirname(uri.fsPath) ? 'current' : undefined,
+      uri,
+    })),
+    { placeHolder }
+  );
+  return item?.uri;
+}
+
+/**
+ * Lets the user choose among the `compile_commands.json` files of the workspace, e.g. those of several build
+ * directories, and restarts clangd with it.
+ */
+async function pickCompilationDatabase(): Promise<void> {
+  const databases = await findCompilationDatabases();
+  if (databases.length === 0) {
+    const choice = await vscode.window.showWarningMessage(
+      'No compile_commands.json found in the workspace',
+      'Generate compile_flags.txt'
+    );
+    if (choice) {
+      await generateCompileFlags();
+    }
+    return;
+  }
+
+  const database = await chooseCompilationDatabase(
+    databases,
+    'Choose the compilation database clangd should use'
+  );
+  if (!database) {
+    return;
+  }
+  await setCompileCommandsDir(path.dirname(database.fsPath));
+  await vscode.commands.executeCommand('clangd.restart');
+}
+
+async function pickWorkspaceFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders;
+  if (!folders?.length) {
+    vscode.window.showErrorMessage('No project is open');
+    return undefined;
+  }
+  return folders.length === 1 ? folders[0] : vscode.window.showWorkspaceFolderPick();
+}
+
+/**
+ * Writes a `compile_flags.txt` at the root of a workspace folder from the include directories and definitions the
+ * user enters, which clangd falls back on for files no compilation database covers.
+ */
+async function generateCompileFlags(): Promise<void> {
+  const folder = await pickWorkspaceFolder();
+  if (!folder) {
+    return;
+  }
+  const includes = await vscode.window.showInputBox({
+    prompt:
+      'Include directories, separated by spaces, relative to the workspace folder or absolute',
+    placeHolder: 'include third_party/include',
+  });
+  if (includes === undefined) {
+    return;
+  }
+  const defines = await vscode.window.showInputBox({
+    prompt: 'Preprocessor definitions, separated by spaces',
+    placeHolder: 'DEBUG VERSION=2',
+  });
+  if (defines === undefined) {
+    return;
+  }
+
+  const words = (text: string) => text.split(/\s+/).filter((word) => word.length > 0);
+  const flags = [
+    ...words(includes).map((dir) => `-I${dir}`),
+    ...words(defines).map((define) => `-D${define}`),
+  ];
+  const file = path.join(folder.uri.fsPath, 'compile_flags.txt');
+  if (
+    (await existsAsync(file)) &&
+    (await vscode.window.showWarningMessage(
+      `${vscode.workspace.asRelativePath(file)} already exists`,
+      { modal: true },
+      'Overwrite'
+    )) !== 'Overwrite'
+  ) {
+    return;
+  }
+  await writeFileAsync(file, flags.map((flag) => `${flag}\n`).join(''), 'utf8');
+  await vscode.window.showTextDocument(vscode.Uri.file(file));
+}
+
+/**
+ * Lists the files of the compilation database clangd uses which no longer exist, e.g. because they were moved since
+ * the build directory was configured.
+ */
+async function validateCompilationDatabase(context: ClangdContext): Promise<void> {
+  const dir = getCompileCommandsDir();
+  const database = dir
+    ? vscode.Uri.file(path.join(dir, 'compile_commands.json'))
+    : await chooseCompilationDatabase(
+        await findCompilationDatabases(),
+        'Choose the compilation database to check'
+      );
+  if (!database) {
+    vscode.window.showWarningMessage('No compile_commands.json found in the workspace');
+    return;
+  }
+
+  let commands: CompileCommand[];
+  try {
+    commands = JSON.parse(await readFileAsync(database.fsPath, 'utf8'));
+  } catch (e) {
+    vscode.window.showErrorMessage(
+      `Couldn't read ${database.fsPath}: ${e instanceof Error ? e.message : String(e)}`
+    );
+    return;
+  }
+
+  const files = [
+    ...new Set(commands.map((command) => path.resolve(command.directory, command.file))),
+  ];
+  const missingFiles = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Window, title: 'Checking compile_commands.json' },
+    async () => {
+      const exists = await Promise.all(files.map((file) => existsAsync(file)));
+      return files.filter((_file, i) => !exists[i]);
+    }
+  );
+
+  const name = vscode.workspace.asRelativePath(database);
+  if (missingFiles.length === 0) {
+    vscode.window.showInformationMessage(`All ${files.length} files in ${name} exist`);
+    return;
+  }
+  const outputChannel = context.client.outputChannel;
+  outputChannel.appendLine(`Files in ${database.fsPath} which don't exist:`);
+  missingFiles.forEach((file) => outputChannel.appendLine(`  ${file}`));
+  const choice = await vscode.window.showWarningMessage(
+    `${missingFiles.length} of the ${files.length} files in ${name} don't exist`,
+    'Show Files'
+  );
+  if (choice) {
+    outputChannel.show();
+  }
+}
@@ -1,13 +1,14 @@
 import * as vscode from 'vscode';
 import * as vscodelc from 'vscode-languageclient/node';
 
+import {StatusBar} from '../statusBar';
+
 import {ClangdContext} from './clangd-context';
 
 export function activate(context: ClangdContext) {
   context.subscriptions.push(vscode.commands.registerCommand(
       'clangd.openOutputPanel', () => context.client.outputChannel.show()));
-  const status = new FileStatus('clangd.openOutputPanel');
-  context.subscriptions.push(vscode.Disposable.from(status));
+  const status = new FileStatus(context);
   context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(
       () => { status.updateStatus(); }));
   context.subscriptions.push(context.client.onDidChangeState(({newState}) => {
@@ -16,6 +17,17 @@ export function activate(context: ClangdContext) {
       context.client.onNotification(
           'textDocument/clangd.fileStatus',
           (fileStatus) => { status.onFileUpdated(fileStatus); });
+      // Replaces the client's own handling of progress, which would show
+      // background indexing in a separate progress indicator.
+      context.client.onRequest(
+          vscodelc.WorkDoneProgressCreateRequest.type, ({token}) => {
+            const disposable = context.client.onProgress(
+                vscodelc.WorkDoneProgress.type, token, (progress) => {
+                  status.onProgress(progress);
+                  if (progress.kind === 'end')
+                    disposable.dispose();
+                });
+          });
     } else if (newState === vscodelc.State.Stopped) {
       // Clear all cached statuses when clangd crashes.
       status.clear();
@@ -25,19 +37,31 @@ export function activate(context: ClangdContext) {
 
 class FileStatus {
   private statuses = new Map<string, any>();
-  private readonly statusBarItem =
-      vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 10);
+  private progressTitle = '';
 
-  constructor(onClickCommand: string) {
-    this.statusBarItem.command = onClickCommand;
-  }
+  constructor(private readonly context: ClangdContext) {}
 
   onFileUpdated(fileStatus: any) {
     const filePath = vscode.Uri.parse(fileStatus.uri);
     this.statuses.set(filePath.fsPath, fileStatus);
+    this.context.astCache.setFileState(filePath, fileStatus.state);
     this.updateStatus();
   }
 
+  onProgress(progress: vscodelc.WorkDoneProgressBegin|
+             vscodelc.WorkDoneProgressReport|vscodelc.WorkDoneProgressEnd) {
+    if (progress.kind === 'end') {
+      StatusBar.setClangdProgress(undefined);
+      return;
+    }
+    if (progress.kind === 'begin')
+      this.progressTitle = progress.title;
+    StatusBar.setClangdProgress(
+        progress.percentage === undefined
+            ? this.progressTitle
+            : `${this.progressTitle} ${progress.percentage}%`);
+  }
+
   updateStatus() {
     const activeDoc = vscode.window.activeTextEditor?.document;
     // Work around https://github.com/microsoft/vscode/issues/58869
@@ -45,19 +69,13 @@ class FileStatus {
     // This aligns with the behavior of other panels, e.g. problems.
     if (!activeDoc || activeDoc.uri.scheme === 'output')
       return;
-    const status = this.statuses.get(activeDoc.fileName);
-    if (!status) {
-      this.statusBarItem.hide();
-      return;
-    }
-    this.statusBarItem.text = `clangd: ` + status.state;
-    this.statusBarItem.show();
+    StatusBar.setClangdFileState(this.statuses.get(activeDoc.fileName)?.state);
   }
 
   clear() {
     this.statuses.clear();
-    this.statusBarItem.hide();
+    this.context.astCache.clearFileStates();
+    StatusBar.setClangdFileState(undefined);
+    StatusBar.setClangdProgress(undefined);
   }
-
-  dispose() { this.statusBarItem.dispose(); }
 }
@@ -11,7 +11,7 @@
 import * as vscode from 'vscode';
 import * as vscodelc from 'vscode-languageclient/node';
 
-import {ClangdContext, clangdDocumentSelector} from './clangd-context';
+import {ClangdContext} from './clangd-context';
 
 export function activate(context: ClangdContext) {
   const feature = new InlayHintsFeature(context);
@@ -89,8 +89,11 @@ class InlayHintsFeature implements vscodelc.StaticFeature {
     if (!serverCapabilities.clangdInlayHintsProvider ||
         serverCapabilities.inlayHintProvider)
       return;
+    // The same as `clangdDocumentSelector`, which we can't import without a
+    // circular dependency.
     this.context.subscriptions.push(vscode.languages.registerInlayHintsProvider(
-        clangdDocumentSelector, new Provider(this.context)));
+        this.context.client.clientOptions.documentSelector!,
+        new Provider(this.context)));
   }
   getState(): vscodelc.FeatureState { return {kind: 'static'}; }
   dispose() {}
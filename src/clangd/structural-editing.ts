@@ -1,32 +1,79 @@
 import * as vscode from 'vscode';
-import * as vscodelc from 'vscode-languageclient/node';
 
-import { ASTParams, ASTNode } from './ast';
+import { ASTNode } from './ast';
+import { astConverter, getAstProvider } from '../ast/astProvider';
 import { ClangdContext } from 'src/clangd/clangd-context';
+import { configuration } from '../configuration/configuration';
 import { VimState } from 'src/state/vimState';
 
 declare global {
   var clangContext: ClangdContext;
 }
 
-const ASTRequestType = new vscodelc.RequestType<ASTParams, ASTNode | null, void>(
-  'textDocument/ast'
-);
-
 const decorationType = vscode.window.createTextEditorDecorationType({
   backgroundColor: '#80808080',
 });
 
+const siblingHintDecorationType = vscode.window.createTextEditorDecorationType({
+  before: {
+    color: new vscode.ThemeColor('editorInlayHint.foreground'),
+    backgroundColor: new vscode.ThemeColor('editorInlayHint.background'),
+    fontStyle: 'italic',
+  },
+});
+
+export function getRangeWithSemiColon(range: vscode.Range): vscode.Range {
+  const document = vscode.window.activeTextEditor!.document;
+  const start = range.start;
+  let end = range.end;
+  const text = document.lineAt(range.end.line).text;
+  if (text.charAt(end.character) === ';') {
+    end = new vscode.Position(range.end.line, range.end.character + 1);
+  }
+  return new vscode.Range(start, end);
+}
+
+/**
+ * Returns the range covered by the structural selection, i.e. from the anchor of a structural visual selection to
+ * the current node, or just the current node. Statements of a span keep their semicolons.
+ */
+export function getAstNodeSpan(vimState: VimState): vscode.Range | undefined {
+  const active = vimState.currentAstNode;
+  if (!active?.range) {
+    return undefined;
+  }
+
+  const activeRange = astConverter.asRange(active.range);
+  const anchor = vimState.astNodeSpanAnchor;
+  if (!anchor?.range || areEqual(anchor, active)) {
+    return activeRange;
+  }
+
+  const anchorRange = astConverter.asRange(anchor.range);
+  const span = activeRange.union(anchorRange);
+  return vimState.currentParent?.kind === 'Compound' ? getRangeWithSemiColon(span) : span;
+}
+
+/**
+ * Structural editing relies on an AST, so it is only offered in documents an AST provider is handling.
+ */
+export function isStructuralEditingAvailable(document: vscode.TextDocument): boolean {
+  return getAstProvider(document) !== undefined;
+}
+
+/**
+ * Returns why the AST of `document` can't be used yet, e.g. `parsing includes`, or undefined if it can.
+ */
+export function getAstPendingStatus(document: vscode.TextDocument): string | undefined {
+  return getAstProvider(document)?.getPendingStatus(document);
+}
+
 export const highlightAstNode = async (vimState: VimState): Promise<void> => {
-  const item = vimState.currentAstNode;
-  if (!item) {
+  const range = getAstNodeSpan(vimState);
+  if (!range) {
     return;
   }
 
-  const start = new vscode.Position(item.range!.start.line, item.range!.start.character);
-  const end = new vscode.Position(item.range!.end.line, item.range!.end.character);
-  const range = new vscode.Range(start, end);
-
   // Define the decoration options for the range
   const astDecoration = { range };
 
@@ -34,6 +81,91 @@ export const highlightAstNode = async (vimState: VimState): Promise<void> => {
   vscode.window.activeTextEditor!.setDecorations(decorationType, [astDecoration]);
 };
 
+export const clearAstNodeHighlight = (vimState: VimState): void => {
+  vimState.currentAstNode = null;
+  vimState.currentParent = null;
+  vimState.astNodeSpanAnchor = null;
+  vimState.editor.setDecorations(decorationType, []);
+  vimState.editor.setDecorations(siblingHintDecorationType, []);
+};
+
+function getInlayHintText(hint: vscode.InlayHint): string {
+  const label =
+    typeof hint.label === 'string' ? hint.label : hint.label.map((part) => part.value).join('');
+  return (hint.paddingLeft ? ' ' : '') + label + (hint.paddingRight ? ' ' : '');
+}
+
+/**
+ * Returns the ranges of the outermost expressions within `node`, whose inlay hints belong to them rather than to it.
+ */
+function getNestedExpressionRanges(node: ASTNode): vscode.Range[] {
+  return (node.children ?? []).flatMap((child) =>
+    child.role === 'expression' && child.range
+      ? [astConverter.asRange(child.range)]
+      : getNestedExpressionRanges(child)
+  );
+}
+
+/**
+ * Labels the siblings of the current node with their own inlay hints, e.g. the parameter each argument of a call
+ * binds to or the type deduced for each declaration of a block, so that they can be told apart while moving across
+ * them. Hints which belong to the expressions within a sibling, such as the arguments of a nested call, are left out.
+ */
+export const showAstNodeSiblingHints = async (vimState: VimState): Promise<void> => {
+  const document = vimState.document;
+  const parent = vimState.currentParent;
+  const inlayHintsSetting = vscode.workspace
+    .getConfiguration('editor', document)
+    .get<string | boolean>('inlayHints.enabled');
+  // When the editor shows the hints itself, labelling the siblings would only show them twice.
+  const editorShowsHints = [true, 'on', 'onUnlessPressed'].includes(inlayHintsSetting ?? 'on');
+  if (!configuration.structuralInlayHints || editorShowsHints || !parent?.range) {
+    vimState.editor.setDecorations(siblingHintDecorationType, []);
+    return;
+  }
+
+  const version = document.version;
+  const hints =
+    (await vscode.commands.executeCommand<vscode.InlayHint[] | undefined>(
+      'vscode.executeInlayHintProvider',
+      document.uri,
+      astConverter.asRange(parent.range)
+    )) ?? [];
+  const decorations: vscode.DecorationOptions[] = [];
+  for (const sibling of parent.children ?? []) {
+    if (!sibling.range) {
+      continue;
+    }
+    const range = astConverter.asRange(sibling.range);
+    const nestedRanges = getNestedExpressionRanges(sibling);
+    for (const hint of hints) {
+      if (
+        range.contains(hint.position) &&
+        (hint.position.isEqual(range.start) ||
+          !nestedRanges.some((nestedRange) => nestedRange.contains(hint.position)))
+      ) {
+        decorations.push({
+          range: new vscode.Range(hint.position, hint.position),
+          renderOptions: { before: { contentText: getInlayHintText(hint) } },
+        });
+      }
+    }
+  }
+  if (document.version === version) {
+    vimState.editor.setDecorations(siblingHintDecorationType, decorations);
+  }
+};
+
+/**
+ * Returns the smallest AST node which covers `range` entirely.
+ */
+export const getAstNodeForRange = async (
+  document: vscode.TextDocument,
+  range: vscode.Range
+): Promise<ASTNode | null> => {
+  return (await getAstProvider(document)?.getNodeForRange(document, range)) ?? null;
+};
+
 let lastVersion = -1;
 
 export const highlightAstNodeUnderCursor = async (vimState: VimState): Promise<void> => {
@@ -41,6 +173,22 @@ export const highlightAstNodeUnderCursor = async (vimState: VimState): Promise<v
     lastVersion = vimState.document.version;
     vimState.currentAstNode = null;
     vimState.currentParent = null;
+    vimState.astNodeSpanAnchor = null;
+
+    // Undo and redo select the node that was selected when the change was made, while structural edits which know
+    // where the node they were working on ended up ask for it to stay selected.
+    const pendingPath = vimState.pendingAstNodePath;
+    const pendingRange = vimState.pendingAstNodeRange;
+    vimState.pendingAstNodePath = null;
+    if (pendingPath) {
+      vimState.pendingAstNodeRange = null;
+      vimState.currentAstNode = await getAstNodeAtPath(vimState.document, pendingPath);
+      vimState.currentParent = await getParentAstNode(vimState.currentAstNode, vimState);
+    } else if (pendingRange) {
+      vimState.pendingAstNodeRange = null;
+      vimState.currentAstNode = await getAstNodeForRange(vimState.document, pendingRange);
+      vimState.currentParent = await getParentAstNode(vimState.currentAstNode, vimState);
+    }
   }
 
   if (!vimState.currentAstNode || !vimState.currentParent) {
@@ -70,13 +218,12 @@ export const highlightAstNodeUnderCursor = async (vimState: VimState): Promise<v
       return;
     }
 
-    const converter = clangContext.client.code2ProtocolConverter;
-    const item = await clangContext.client.sendRequest(ASTRequestType, {
-      textDocument: converter.asTextDocumentIdentifier(editor!.document),
-      range: converter.asRange(new vscode.Range(cursorPosition, cursorPosition.getRight())),
-    });
-    if (!item || !item.range) {
-      const selectionRange = converter.asRange(editor!.selection);
+    const item = await getAstNodeForRange(
+      editor!.document,
+      new vscode.Range(cursorPosition, cursorPosition.getRight())
+    );
+    if (!item) {
+      const selectionRange = editor!.selection;
       vscode.window.showInformationMessage(
         'No AST node at selection (' +
           selectionRange.start.line +
@@ -111,39 +258,88 @@ export function areEqual(a: ASTNode, b: ASTNode): boolean {
   );
 }
 
-// If potentialAncestor is potentialDescendant's direct parent or counts potentialDescendant's
-// direct parent among its children, returns that parent; else, returns null.
-// NOTE: if the parent AST node is a compound statement whose parent is not itself a compound statement,
-// this function returns the grandparent for the sake of convenience and intuition. For example, in the
-// case of:
-//
-// for (int i = 0; i < 3; i++)
-// {
-//     sum += i;
-// }
-//
-// getParentFromAncestor() will return the whole for loop as the parent of "sum += i".
-const getParentFromAncestor = async (
-  potentialAncestor: ASTNode,
-  potentialDescendant: ASTNode,
-  vimState: VimState
-): Promise<ASTNode | null> => {
-  if (!potentialAncestor || !potentialAncestor.children || !potentialDescendant) {
-    return null;
-  } else {
-    for (const child of potentialAncestor.children) {
-      if (areEqual(child, potentialDescendant)) {
-        return potentialAncestor;
-      } else {
-        const childSearch = await getParentFromAncestor(child, potentialDescendant, vimState);
-        if (childSearch) {
-          return childSearch;
-        }
-      }
+/**
+ * Returns the ancestors of `node`, outermost first, leaving out implicit casts and the root of the document.
+ */
+export const getAstNodeAncestors = async (
+  node: ASTNode,
+  document: vscode.TextDocument
+): Promise<ASTNode[]> => {
+  const provider = getAstProvider(document);
+  const ancestors: ASTNode[] = [];
+  let parent = (await provider?.getParent(document, node)) ?? null;
+  while (parent?.range) {
+    if (parent.kind !== 'ImplicitCast') {
+      ancestors.unshift(parent);
     }
+    parent = await provider!.getParent(document, parent);
   }
+  return ancestors;
+};
 
-  return null;
+/**
+ * Returns the path to the current node in the AST of the document: the index of the top-level declaration (typically
+ * a function) the node belongs to, followed by the child indices leading from there to the node. Unlike a range, the
+ * path still leads to the same node after the text around it was edited and the edit undone.
+ */
+export const getAstNodePath = async (vimState: VimState): Promise<number[] | undefined> => {
+  const document = vimState.document;
+  const version = document.version;
+  const provider = getAstProvider(document);
+  let node = vimState.currentAstNode && (await provider?.find(document, vimState.currentAstNode));
+  if (!provider || !node) {
+    return undefined;
+  }
+
+  const path: number[] = [];
+  for (
+    let parent = await provider.getParent(document, node);
+    parent;
+    parent = await provider.getParent(document, node)
+  ) {
+    path.unshift(parent.children!.indexOf(node));
+    node = parent;
+  }
+  return document.version === version ? path : undefined;
+};
+
+export const getAstNodeAtPath = async (
+  document: vscode.TextDocument,
+  path: number[]
+): Promise<ASTNode | null> => {
+  let node = (await getAstProvider(document)?.getRoot(document)) ?? null;
+  for (const index of path) {
+    node = node?.children?.[index] ?? null;
+  }
+  return node?.range ? node : null;
+};
+
+/**
+ * Reveals the current node in clangd's AST view, if the view is following the structural cursor.
+ */
+export const revealAstNodeInView = async (vimState: VimState): Promise<void> => {
+  const node = vimState.currentAstNode;
+  const view = globalThis.clangContext?.astFeature;
+  if (!node || !view?.following) {
+    return;
+  }
+  await view.follow(
+    vimState.document.uri,
+    node,
+    await getAstNodeAncestors(node, vimState.document)
+  );
+};
+
+/**
+ * Makes `node` the current node, e.g. when it is picked in the AST view rather than navigated to.
+ */
+export const selectAstNode = async (vimState: VimState, node: ASTNode): Promise<void> => {
+  // Don't let the next highlight take this for an edit and look for the node under the cursor instead.
+  lastVersion = vimState.document.version;
+  vimState.currentAstNode = node;
+  vimState.currentParent = null;
+  vimState.astNodeSpanAnchor = null;
+  vimState.currentParent = await getParentAstNode(node, vimState);
 };
 
 export const getParentIfImplicitCast = async (
@@ -169,162 +365,10 @@ export const getParentAstNode = async (
     }
   }
 
-  const c2p = clangContext.client.code2ProtocolConverter;
-  const p2c = clangContext.client.protocol2CodeConverter;
-  const editor = vscode.window.activeTextEditor;
-  const document = editor!.document;
-
-  if (node.kind === 'Function') {
-    vimState.currentParent = await clangContext.client.sendRequest(ASTRequestType, {
-      textDocument: c2p.asTextDocumentIdentifier(editor!.document),
-      range: null,
-    });
-    return vimState.currentParent;
-  }
-
-  // Keep going backwards until we hit node's direct parent or a node whose descendants include that parent.
-  const parentAstNode: ASTNode | null = null;
-  const nodeRange = node.range;
-
-  let currentPosition = p2c.asPosition(nodeRange!.start);
-  let currentLine = currentPosition.line;
-  let currentCharacter = currentPosition.character;
-
-  // First, we have to make a special case for finding the Function parent of an unqualified function prototype.
-  if (currentCharacter === 0) {
-    const lineText = document.lineAt(currentLine).text;
-    const potentialFunctionName = lineText.split(' ').at(1);
-
-    if (potentialFunctionName) {
-      const testCharacter = lineText.indexOf(potentialFunctionName);
-      const testAncestor = await clangContext.client.sendRequest(ASTRequestType, {
-        textDocument: c2p.asTextDocumentIdentifier(editor!.document),
-        range: c2p.asRange(
-          new vscode.Range(currentLine, testCharacter, currentLine, testCharacter + 1)
-        ),
-      });
-      if (testAncestor && testAncestor.kind === 'Function') {
-        vimState.currentParent = testAncestor;
-        return vimState.currentParent;
-      }
-    }
-  }
-
-  currentPosition = currentPosition.getLeftThroughLineBreaks();
-
-  while (parentAstNode === null) {
-    // Work backwards until we get a character that can be used in an AST request.
-
-    // Try to skip whole lines.
-    while (true) {
-      // If we're in a comment or preprocessor directive, skip the line.
-      const line = document.lineAt(currentLine);
-      const firstNonWhitespaceIndex = line.firstNonWhitespaceCharacterIndex;
-      const firstCharInLine = line.text.charAt(firstNonWhitespaceIndex);
-      const secondCharInLine =
-        firstNonWhitespaceIndex !== line.text.length
-          ? line.text.charAt(firstNonWhitespaceIndex + 1)
-          : '';
-
-      if (
-        line.isEmptyOrWhitespace ||
-        (firstCharInLine === '/' && secondCharInLine === '/') ||
-        firstCharInLine === '#'
-      ) {
-        currentPosition = currentPosition.getUp().getLineEnd();
-        currentLine = currentPosition.line;
-        currentCharacter = currentPosition.character;
-
-        if (currentLine === 0) {
-          vimState.currentParent = await clangContext.client.sendRequest(ASTRequestType, {
-            textDocument: c2p.asTextDocumentIdentifier(editor!.document),
-            range: null,
-          });
-          return vimState.currentParent;
-        }
-      } else {
-        break;
-      }
-    }
-
-    // Now, try to skip character ranges (whitespace or semi-colons)
-    let previousCharacter = document.lineAt(currentLine).text.charAt(currentCharacter);
-    while (
-      previousCharacter === ' ' ||
-      previousCharacter === ';' ||
-      previousCharacter === '\n' ||
-      previousCharacter === '\r\n' ||
-      previousCharacter === '\t'
-    ) {
-      currentPosition = currentPosition.getLeftThroughLineBreaks();
-      while (currentPosition.character === document.lineAt(currentPosition.line).text.length) {
-        currentPosition = currentPosition.getLeftThroughLineBreaks();
-      }
-      currentLine = currentPosition.line;
-      currentCharacter = currentPosition.character;
-      previousCharacter = document.lineAt(currentLine).text.charAt(currentCharacter);
-    }
-
-    // Now that we have a valid character, make the AST request.
-    const candidateAncestor = await clangContext.client.sendRequest(ASTRequestType, {
-      textDocument: c2p.asTextDocumentIdentifier(editor!.document),
-      range: c2p.asRange(
-        new vscode.Range(currentLine, currentCharacter, currentLine, currentCharacter + 1)
-      ),
-    });
-
-    // If there is an AST node for the character, we can test whether it is or contains node's parent. If it
-    // doesn't, we continue the search from the beginning of its range.
-    // If there isn't an AST node for the character, we're probably in a comment or preprocessor directive.
-    if (candidateAncestor) {
-      // First, we have to check that this candidate ancestor is not in fact a *child* of node. This is necessary
-      // because in the Clang AST, the namespace is a child of the node it qualifies, eg in
-      //     "ImGui::Separator();"
-      // "ImGui::" is a child of the "Separator" DeclRef.
-      let potentialAncestorIsActuallyChild: boolean = false;
-      if (node.children) {
-        for (const child of node.children) {
-          if (areEqual(child, candidateAncestor)) {
-            potentialAncestorIsActuallyChild = true;
-            break;
-          }
-        }
-      }
-
-      // Now that we have a candidate ancestor, recurse through its descendants. Either:
-      // - we find node, in which case we can return its parent;
-      // - we don't, in which case we continue the search backwards from the beginning of the candidate parent's range.
-      const candidateParent = potentialAncestorIsActuallyChild
-        ? null
-        : await getParentFromAncestor(candidateAncestor, node, vimState);
-      if (candidateParent) {
-        vimState.currentParent = await getParentIfImplicitCast(candidateParent, vimState);
-        return vimState.currentParent;
-      }
-
-      // This fixes some issues with GET_X_LPARAM() and GET_Y_LPARAM().
-      currentPosition = candidateAncestor.range
-        ? p2c.asPosition(candidateAncestor.range!.start)?.getLeftThroughLineBreaks()
-        : currentPosition.getLeftThroughLineBreaks();
-    }
-
-    currentPosition = currentPosition.getLeftThroughLineBreaks();
-    // Yet another special case to account for unqualified function prototypes requiring us to access the Function parent via the function name.
-    if (
-      candidateAncestor?.kind === 'FunctionProto' &&
-      candidateAncestor.range?.start.character === 0
-    ) {
-      const startLine = candidateAncestor.range.start.line;
-      const lineText = document.lineAt(startLine).text;
-      const functionName = lineText.split(' ').at(1);
-      if (functionName) {
-        currentPosition = new vscode.Position(startLine, lineText.indexOf(functionName));
-      }
-    }
-    currentLine = currentPosition.line;
-    currentCharacter = currentPosition.character;
-  }
-
-  vimState.currentParent = await getParentIfImplicitCast(parentAstNode, vimState);
+  // The parent is resolved from the AST provider's cached tree of the document, which is only fetched again
+  // after edits, rather than by probing clangd with requests at successive positions.
+  const parent =
+    (await getAstProvider(vimState.document)?.getParent(vimState.document, node)) ?? null;
+  vimState.currentParent = await getParentIfImplicitCast(parent, vimState);
   return vimState.currentParent;
 };
@@ -15,20 +15,27 @@ export const type =
             'textDocument/switchSourceHeader');
 }
 
+// Returns the source file of a header, or the header of a source file.
+export async function getPairedFile(client: vscodelc.LanguageClient,
+                                    uri: vscode.Uri):
+    Promise<vscode.Uri|undefined> {
+  const docIdentifier = vscodelc.TextDocumentIdentifier.create(uri.toString());
+  const sourceUri =
+      await client.sendRequest(SwitchSourceHeaderRequest.type, docIdentifier);
+  return sourceUri ? vscode.Uri.parse(sourceUri) : undefined;
+}
+
 async function switchSourceHeader(client: vscodelc.LanguageClient):
     Promise<void> {
   if (!vscode.window.activeTextEditor)
     return;
   const uri = vscode.Uri.file(vscode.window.activeTextEditor.document.fileName);
 
-  const docIdentifier = vscodelc.TextDocumentIdentifier.create(uri.toString());
-  const sourceUri =
-      await client.sendRequest(SwitchSourceHeaderRequest.type, docIdentifier);
+  const sourceUri = await getPairedFile(client, uri);
   if (!sourceUri) {
     vscode.window.showInformationMessage('Didn\'t find a corresponding file.');
     return;
   }
-  const doc =
-      await vscode.workspace.openTextDocument(vscode.Uri.parse(sourceUri));
+  const doc = await vscode.workspace.openTextDocument(sourceUri);
   vscode.window.showTextDocument(doc);
 }
\ No newline at end of file
@@ -149,6 +149,31 @@ class TypeHierarchyFeature implements vscodelc.StaticFeature {
   }
 }
 
+// Returns the base classes (Parents) or the derived classes (Children) of the
+// class at `position`, for navigating the hierarchy without the tree view.
+export async function getRelatedTypes(
+    client: vscodelc.LanguageClient, document: vscode.TextDocument,
+    position: vscode.Position, direction: TypeHierarchyDirection):
+    Promise<{name: string, location: vscode.Location}[]> {
+  const item = await client.sendRequest(TypeHierarchyRequest.type, {
+    ...client.code2ProtocolConverter.asTextDocumentPositionParams(document,
+                                                                  position),
+    resolve: 1,
+    direction
+  });
+  const related = (direction === TypeHierarchyDirection.Parents
+                       ? item?.parents
+                       : item?.children) ??
+                  [];
+  return related.map(
+      (relatedItem) => ({
+        name: relatedItem.name,
+        location: new vscode.Location(
+            vscode.Uri.parse(relatedItem.uri),
+            client.protocol2CodeConverter.asRange(relatedItem.range))
+      }));
+}
+
 class TypeHierarchyProvider implements
     vscode.TreeDataProvider<TypeHierarchyItem> {
 
@@ -0,0 +1,100 @@
+import { all, optWhitespace, Parser, seq } from 'parsimmon';
+import * as vscode from 'vscode';
+import { Cursor } from '../../common/motion/cursor';
+import { ErrorCode, VimError } from '../../error';
+import { isValidEntry, quickfixLists } from '../../quickfix/quickfix';
+import { VimState } from '../../state/vimState';
+import { executeExCommand, IModeHandler } from '../../transformations/execute';
+import { ExCommand } from '../../vimscript/exCommand';
+import { LineRange } from '../../vimscript/lineRange';
+import { bangParser } from '../../vimscript/parserUtils';
+import { ExCommandLine } from '../commandLine';
+import { goToEntry } from './quickfix';
+
+export interface ICdoCommandArguments {
+  /** Go through the location list of the current document rather than the quickfix list */
+  location: boolean;
+  /** Run the command once in each file, at its first entry, as `:cfdo` does */
+  perFile: boolean;
+  commandText: string;
+}
+
+/**
+ * `:cdo[!] {cmd}`, `:cfdo[!] {cmd}`, `:ld[o][!] {cmd}` and `:lfd[o][!] {cmd}`
+ *
+ * Goes to each valid entry of the list in turn (or to the first one in each file) and runs the command there, as
+ * part of an undo step of the document it is in.
+ */
+export class CdoCommand extends ExCommand {
+  /**
+   * Returns the mode handler of the active editor, which the extension provides, as mode handlers can't be imported
+   * from here without a cycle.
+   */
+  public static getModeHandler: () => Promise<IModeHandler | undefined>;
+
+  public static argParser(args: { location: boolean; perFile: boolean }): Parser<CdoCommand> {
+    return seq(bangParser, optWhitespace.then(all)).map(
+      ([_bang, commandText]) => new CdoCommand({ ...args, commandText: commandText.trim() })
+    );
+  }
+
+  private readonly arguments: ICdoCommandArguments;
+  private readonly command: { lineRange: LineRange | undefined; command: ExCommand } | undefined;
+  constructor(args: ICdoCommandArguments) {
+    super();
+    this.arguments = args;
+    if (args.commandText) {
+      const result = ExCommandLine.parser.parse(args.commandText);
+      if (!result.status) {
+        throw VimError.fromCode(ErrorCode.NotAnEditorCommand, args.commandText);
+      }
+      this.command = result.value;
+    }
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    if (this.command === undefined) {
+      throw VimError.fromCode(ErrorCode.ArgumentRequired);
+    }
+    const list = quickfixLists.getExistingStack(
+      this.arguments.location ? vimState.document : undefined
+    ).currentList;
+    if (list === undefined || list.validEntryCount === 0) {
+      throw VimError.fromCode(ErrorCode.NoErrors);
+    }
+
+    const files = new Set<string>();
+    const indices = list.entries.flatMap((entry, index) => {
+      if (!isValidEntry(entry)) {
+        return [];
+      } else if (this.arguments.perFile) {
+        if (files.has(entry.uri.toString())) {
+          return [];
+        }
+        files.add(entry.uri.toString());
+      }
+      return [index];
+    });
+
+    for (const index of indices) {
+      const entry = list.goTo(index + 1);
+      await goToEntry(vimState, list, entry);
+      const modeHandler = await CdoCommand.getModeHandler();
+      if (modeHandler === undefined) {
+        return;
+      }
+      const position = modeHandler.vimState.document.validatePosition(
+        new vscode.Position(entry.line ?? 0, entry.column ?? 0)
+      );
+      modeHandler.vimState.cursors = [new Cursor(position, position)];
+      await executeExCommand(modeHandler, this.command.command, this.command.lineRange);
+
+      // The changes to the current document are part of the undo step of this command
+      if (modeHandler.vimState !== vimState) {
+        await modeHandler.updateView();
+        modeHandler.vimState.historyTracker.addChange();
+        modeHandler.vimState.historyTracker.finishCurrentStep();
+      }
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { all, optWhitespace, Parser, seq } from 'parsimmon';
+import * as path from 'path';
+import { readFileAsync } from 'platform/fs';
+import { configuration } from '../../configuration/configuration';
+import { ErrorCode, VimError } from '../../error';
+import {
+  getWorkingDirectory,
+  IQuickfixEntry,
+  isValidEntry,
+  parseOutput,
+  quickfixLists,
+} from '../../quickfix/quickfix';
+import { VimState } from '../../state/vimState';
+import { ExCommand } from '../../vimscript/exCommand';
+import { stringListExpressionParser } from '../../vimscript/expression';
+import { bangParser } from '../../vimscript/parserUtils';
+import { goToEntry } from './quickfix';
+
+interface IErrorListArguments {
+  /** Fill the location list of the current document rather than the quickfix list */
+  location: boolean;
+  /** Add to the current list rather than make a new one */
+  add: boolean;
+  /** Go to the first entry, as `:cfile` and `:cexpr` do but `:cgetfile` and `:cgetexpr` don't */
+  jump: boolean;
+}
+
+async function setErrorList(
+  vimState: VimState,
+  args: IErrorListArguments,
+  title: string,
+  entries: IQuickfixEntry[]
+): Promise<void> {
+  const list = quickfixLists.setList(
+    args.location ? vimState.document : undefined,
+    title,
+    entries,
+    args.add
+  );
+  if (args.jump && entries.some(isValidEntry)) {
+    await goToEntry(vimState, list, list.goTo(list.entries.length - entries.length + 1));
+  }
+}
+
+/**
+ * `:cf[ile][!] [errorfile]`, `:cg[etfile] [errorfile]`, `:caddf[ile] [errorfile]` and their `:l` variants
+ *
+ * Makes a list of the lines of a file, by default 'errorfile', parsed with 'errorformat'.
+ */
+export class CfileCommand extends ExCommand {
+  public static argParser(args: {
+    location: boolean;
+    add?: boolean;
+    jump: boolean;
+  }): Parser<CfileCommand> {
+    return seq(bangParser, optWhitespace.then(all)).map(
+      ([_bang, file]) => new CfileCommand({ ...args, add: args.add ?? false }, file.trim())
+    );
+  }
+
+  public readonly arguments: IErrorListArguments;
+  private readonly file: string;
+  constructor(args: IErrorListArguments, file: string) {
+    super();
+    this.arguments = args;
+    this.file = file;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const file = this.file || configuration.errorfile;
+    const directory = getWorkingDirectory(vimState.document);
+    let text: string;
+    try {
+      text = await readFileAsync(path.resolve(directory ?? '', file), 'utf8');
+    } catch {
+      throw VimError.fromCode(ErrorCode.CantOpenErrorfile, file);
+    }
+    await setErrorList(
+      vimState,
+      this.arguments,
+      file,
+      parseOutput(text, configuration.errorformat, directory)
+    );
+  }
+}
+
+/**
+ * `:cex[pr][!] {expr}`, `:cgete[xpr] {expr}`, `:cadde[xpr] {expr}` and their `:l` variants
+ *
+ * Makes a list of the lines of a string or a list of strings, parsed with 'errorformat'. Other expressions aren't
+ * supported.
+ */
+export class CexprCommand extends ExCommand {
+  public static argParser(args: {
+    location: boolean;
+    add?: boolean;
+    jump: boolean;
+  }): Parser<CexprCommand> {
+    return seq(bangParser, optWhitespace.then(stringListExpressionParser.skip(optWhitespace))).map(
+      ([_bang, lines]) => new CexprCommand({ ...args, add: args.add ?? false }, lines)
+    );
+  }
+
+  public readonly arguments: IErrorListArguments;
+  private readonly lines: string[];
+  constructor(args: IErrorListArguments, lines: string[]) {
+    super();
+    this.arguments = args;
+    this.lines = lines;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const directory = getWorkingDirectory(vimState.document);
+    await setErrorList(
+      vimState,
+      this.arguments,
+      this.arguments.location ? ':lexpr' : ':cexpr',
+      parseOutput(this.lines.join('\n'), configuration.errorformat, directory)
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { optWhitespace, Parser, regexp, seq } from 'parsimmon';
+import { Cursor } from '../../common/motion/cursor';
+import { HistoryTimeUnit } from '../../history/historyTracker';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { ExCommand } from '../../vimscript/exCommand';
+import { numberParser } from '../../vimscript/parserUtils';
+
+const secondsPerUnit: { [suffix: string]: number } = { s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60 };
+
+export interface IEarlierLaterCommandArguments {
+  // Negative for `:earlier`
+  amount: number;
+  unit: HistoryTimeUnit;
+}
+
+/**
+ * `:earlier {N}`, `:earlier {N}s`, `:earlier {N}f` and the same with `:later`
+ *
+ * Goes to an older or newer state of the document by a number of steps, seconds, minutes, hours, days or writes,
+ * across branches of the undo tree.
+ */
+export class EarlierLaterCommand extends ExCommand {
+  public static argParser(later: boolean): Parser<EarlierLaterCommand> {
+    return optWhitespace
+      .then(seq(numberParser, regexp(/[smhdf]/).fallback('')))
+      .fallback([1, ''] as [number, string])
+      .map(([count, suffix]) => {
+        const sign = later ? 1 : -1;
+        if (suffix === '') {
+          return new EarlierLaterCommand({ amount: sign * count, unit: 'step' });
+        } else if (suffix === 'f') {
+          return new EarlierLaterCommand({ amount: sign * count, unit: 'write' });
+        }
+        return new EarlierLaterCommand({
+          amount: sign * count * secondsPerUnit[suffix],
+          unit: 'second',
+        });
+      });
+  }
+
+  private readonly arguments: IEarlierLaterCommandArguments;
+  constructor(args: IEarlierLaterCommandArguments) {
+    super();
+    this.arguments = args;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const newPosition = await vimState.historyTracker.goToEarlierOrLaterState(
+      this.arguments.amount,
+      this.arguments.unit
+    );
+
+    if (newPosition === undefined) {
+      StatusBar.setText(
+        vimState,
+        this.arguments.amount < 0 ? 'Already at oldest change' : 'Already at newest change'
+      );
+    } else {
+      vimState.cursors = [new Cursor(newPosition, newPosition)];
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { all, optWhitespace, Parser, regexp, seq } from 'parsimmon';
+import { ErrorCode, VimError } from '../../error';
+import { globalState } from '../../state/globalState';
+import { SearchState } from '../../state/searchState';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { ExCommand } from '../../vimscript/exCommand';
+import { Address, LineRange } from '../../vimscript/lineRange';
+import { bangParser } from '../../vimscript/parserUtils';
+import { Pattern, SearchDirection } from '../../vimscript/pattern';
+import { ExCommandLine } from '../commandLine';
+
+export interface IGlobalCommandArguments {
+  pattern: Pattern;
+  // Run the command on the lines which don't match, as `:g!` and `:v` do
+  invert: boolean;
+  // The command to run on each line, `:p[rint]` if empty
+  commandText: string;
+}
+
+/**
+ * `:[range]g[lobal]/{pattern}/[cmd]` and `:[range]v[global]/{pattern}/[cmd]`
+ *
+ * Marks the lines of the range which match (or don't match) the pattern, then runs the command on each of them
+ * in turn with the cursor on it, skipping those which an earlier command deleted.
+ */
+export class GlobalCommand extends ExCommand {
+  public static argParser(invert: boolean): Parser<GlobalCommand> {
+    return seq(bangParser, optWhitespace.then(regexp(/[^\w\s\\|"]/))).chain(([bang, delimiter]) =>
+      seq(Pattern.parser({ direction: SearchDirection.Forward, delimiter }), all).map(
+        ([pattern, commandText]) =>
+          new GlobalCommand({ pattern, invert: invert || bang, commandText: commandText.trim() })
+      )
+    );
+  }
+
+  private readonly arguments: IGlobalCommandArguments;
+  private readonly command: { lineRange: LineRange | undefined; command: ExCommand };
+  constructor(args: IGlobalCommandArguments) {
+    super();
+    this.arguments = args;
+    const commandText = args.commandText || 'p';
+    const result = ExCommandLine.parser.parse(commandText);
+    if (!result.status) {
+      throw VimError.fromCode(ErrorCode.NotAnEditorCommand, commandText);
+    }
+    this.command = result.value;
+    if (this.command.command instanceof GlobalCommand) {
+      throw VimError.fromCode(ErrorCode.GlobalCannotBeRecursive);
+    }
+  }
+
+  public override neovimCapable(): boolean {
+    return this.command.command.neovimCapable();
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    await this.executeWithRange(vimState, new LineRange(new Address({ type: 'entire_file' })));
+  }
+
+  override async executeWithRange(vimState: VimState, range: LineRange): Promise<void> {
+    let pattern = this.arguments.pattern;
+    if (pattern.patternString === '') {
+      // `:g//` uses the last search pattern
+      const previousPattern = globalState.searchState?.pattern;
+      if (previousPattern === undefined || previousPattern.patternString === '') {
+        throw VimError.fromCode(ErrorCode.NoPreviousRegularExpression);
+      }
+      pattern = previousPattern;
+    }
+
+    const { start, end } = range.resolve(vimState);
+    // The pattern's regex is global, which would make `test` carry on from where the last line's match ended
+    const regex = new RegExp(pattern.regex.source, pattern.regex.flags.replace('g', ''));
+    const lines: number[] = [];
+    for (let line = start; line <= end; line++) {
+      if (regex.test(vimState.document.lineAt(line).text) !== this.arguments.invert) {
+        lines.push(line);
+      }
+    }
+
+    globalState.searchState = new SearchState(
+      SearchDirection.Forward,
+      vimState.cursorStopPosition,
+      pattern.patternString,
+      {}
+    );
+
+    if (lines.length === 0) {
+      if (this.arguments.invert) {
+        StatusBar.setText(vimState, `Pattern found in every line: ${pattern.patternString}`);
+      } else {
+        StatusBar.displayError(
+          vimState,
+          VimError.fromCode(ErrorCode.PatternNotFound, pattern.patternString)
+        );
+      }
+      return;
+    }
+
+    // The command must run on each line once the previous ones have changed the document, so leave it to
+    // the mode handler, which applies the changes as it goes.
+    vimState.recordedState.transformer.addTransformation({
+      type: 'exCommandOnLines',
+      command: this.command.command,
+      lineRange: this.command.lineRange,
+      lines,
+    });
+  }
+}
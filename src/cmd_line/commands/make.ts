@@ -0,0 +1,94 @@
+import { all, Parser, seq } from 'parsimmon';
+import * as path from 'path';
+import { configuration } from '../../configuration/configuration';
+import {
+  getWorkingDirectory,
+  isValidEntry,
+  parseOutput,
+  quickfixLists,
+} from '../../quickfix/quickfix';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { externalCommand } from '../../util/externalCommand';
+import { ExCommand } from '../../vimscript/exCommand';
+import { bangParser } from '../../vimscript/parserUtils';
+import { goToEntry } from './quickfix';
+
+/**
+ * Quotes a file name for the shell, so that spaces and other special characters in it are taken literally.
+ */
+function shellQuote(fileName: string): string {
+  // cmd.exe has no escape characters within quotes, but file names can't contain `"` on Windows anyway
+  return path === path.win32 ? `"${fileName}"` : `'${fileName.replace(/'/g, `'\\''`)}'`;
+}
+
+export interface IMakeCommandArguments {
+  /** Run 'grepprg' and parse its output with 'grepformat', rather than 'makeprg' and 'errorformat' */
+  grep: boolean;
+  /** Fill the location list of the current document rather than the quickfix list */
+  location: boolean;
+  /** Add to the current list rather than make a new one, as `:grepadd` does */
+  add: boolean;
+  /** Don't go to the first entry */
+  bang: boolean;
+  args: string;
+}
+
+/**
+ * `:mak[e][!] [args]`, `:gr[ep][!] [args]` and their `:l` and `add` variants
+ *
+ * Runs 'makeprg' or 'grepprg' in the workspace folder, with `$*` in it replaced by the arguments (or the arguments
+ * appended to it), and makes a list of the lines of output, going to the first one which names a file.
+ */
+export class MakeCommand extends ExCommand {
+  public static argParser(args: {
+    grep: boolean;
+    location: boolean;
+    add?: boolean;
+  }): Parser<MakeCommand> {
+    return seq(bangParser, all).map(
+      ([bang, commandArgs]) =>
+        new MakeCommand({ ...args, add: args.add ?? false, bang, args: commandArgs.trim() })
+    );
+  }
+
+  public readonly arguments: IMakeCommandArguments;
+  constructor(args: IMakeCommandArguments) {
+    super();
+    this.arguments = args;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const { grep, location, add, bang } = this.arguments;
+    // `%` stands for the current file, as in Vim
+    const args = this.arguments.args.replace(
+      /(^|\s)%(?=\s|$)/g,
+      (_match, space: string) => `${space}${shellQuote(vimState.document.fileName)}`
+    );
+    const program = grep ? configuration.grepprg : configuration.makeprg;
+    const command = program.includes('$*')
+      ? program.replace(/\$\*/g, () => args)
+      : `${program} ${args}`.trim();
+
+    StatusBar.setText(vimState, `:!${command}`);
+    const directory = getWorkingDirectory(vimState.document);
+    const output = await externalCommand.runWithoutHistory(command, '', directory);
+    const entries = parseOutput(
+      output,
+      grep ? configuration.grepformat : configuration.errorformat,
+      directory
+    );
+
+    const list = quickfixLists.setList(
+      location ? vimState.document : undefined,
+      `:${command}`,
+      entries,
+      add
+    );
+    if (!bang && entries.some(isValidEntry)) {
+      await goToEntry(vimState, list, list.goTo(list.entries.length - entries.length + 1));
+    } else {
+      StatusBar.setText(vimState, `${list.validEntryCount} errors`);
+    }
+  }
+}
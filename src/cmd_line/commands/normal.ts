@@ -0,0 +1,63 @@
+import { all, optWhitespace, Parser, seq } from 'parsimmon';
+import { ErrorCode, VimError } from '../../error';
+import { VimState } from '../../state/vimState';
+import { ExCommand } from '../../vimscript/exCommand';
+import { normalKeystrokesParser } from '../../vimscript/expression';
+import { LineRange } from '../../vimscript/lineRange';
+import { bangParser } from '../../vimscript/parserUtils';
+
+export interface INormalCommandArguments {
+  keys: string[];
+  // Don't remap the keys, as `:normal!` does
+  noRemap: boolean;
+}
+
+/**
+ * `:[range]norm[al][!] {commands}`
+ *
+ * Types the keys in Normal mode, once on each line of the range with the cursor at its start if there is one.
+ * An unfinished command is abandoned and Insert mode left once the keys run out.
+ */
+export class NormalCommand extends ExCommand {
+  public static readonly argParser: Parser<NormalCommand> = seq(
+    bangParser,
+    optWhitespace.then(all)
+  ).map(
+    ([bang, keys]) =>
+      new NormalCommand({ keys: normalKeystrokesParser.tryParse(keys), noRemap: bang })
+  );
+
+  private readonly arguments: INormalCommandArguments;
+  constructor(args: INormalCommandArguments) {
+    super();
+    this.arguments = args;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    if (this.arguments.keys.length === 0) {
+      throw VimError.fromCode(ErrorCode.ArgumentRequired);
+    }
+    vimState.recordedState.transformer.addTransformation({
+      type: 'normalKeys',
+      keys: this.arguments.keys,
+      noRemap: this.arguments.noRemap,
+    });
+  }
+
+  override async executeWithRange(vimState: VimState, range: LineRange): Promise<void> {
+    if (this.arguments.keys.length === 0) {
+      throw VimError.fromCode(ErrorCode.ArgumentRequired);
+    }
+    const { start, end } = range.resolve(vimState);
+    const lines: number[] = [];
+    for (let line = start; line <= end; line++) {
+      lines.push(line);
+    }
+    vimState.recordedState.transformer.addTransformation({
+      type: 'exCommandOnLines',
+      command: this,
+      lineRange: undefined,
+      lines,
+    });
+  }
+}
@@ -0,0 +1,286 @@
+import { optWhitespace, Parser, seq } from 'parsimmon';
+import * as vscode from 'vscode';
+import { Cursor } from '../../common/motion/cursor';
+import { ErrorCode, VimError } from '../../error';
+import { Jump } from '../../jumps/jump';
+import {
+  IQuickfixEntry,
+  isValidEntry,
+  QuickfixList,
+  quickfixLists,
+  QuickfixStack,
+} from '../../quickfix/quickfix';
+import { closeQuickfixView, openQuickfixView } from '../../quickfix/quickfixView';
+import { globalState } from '../../state/globalState';
+import { VimState } from '../../state/vimState';
+import { StatusBar } from '../../statusBar';
+import { ExCommand } from '../../vimscript/exCommand';
+import { bangParser, numberParser } from '../../vimscript/parserUtils';
+
+export enum QuickfixCommandType {
+  GoTo,
+  First,
+  Last,
+  Next,
+  Previous,
+  NextFile,
+  PreviousFile,
+  Open,
+  Window,
+  Close,
+  List,
+  Older,
+  Newer,
+  History,
+}
+
+export interface IQuickfixCommandArguments {
+  type: QuickfixCommandType;
+  /** Whether the command is about the location list of the current document rather than the quickfix list */
+  location: boolean;
+  bang: boolean;
+  count?: number;
+}
+
+/**
+ * What the quickfix commands did before there was a quickfix list, which they still do on VS Code's problems until
+ * a list is made.
+ */
+const problemsCommands: { [type: number]: string } = {
+  [QuickfixCommandType.Next]: 'editor.action.marker.nextInFiles',
+  [QuickfixCommandType.Previous]: 'editor.action.marker.prevInFiles',
+  [QuickfixCommandType.NextFile]: 'editor.action.marker.nextInFiles',
+  [QuickfixCommandType.PreviousFile]: 'editor.action.marker.prevInFiles',
+  [QuickfixCommandType.Open]: 'workbench.panel.markers.view.focus',
+  [QuickfixCommandType.Window]: 'workbench.panel.markers.view.focus',
+  [QuickfixCommandType.Close]: 'workbench.action.closePanel',
+};
+
+/**
+ * What the location list commands did before there were location lists, which they still do on VS Code's comments
+ * in a document which has none.
+ */
+const commentsCommands: { [type: number]: string } = {
+  [QuickfixCommandType.Next]: 'editor.action.nextCommentThreadAction',
+  [QuickfixCommandType.Previous]: 'editor.action.previousCommentThreadAction',
+  [QuickfixCommandType.Open]: 'workbench.action.focusCommentsPanel',
+  [QuickfixCommandType.Window]: 'workbench.action.focusCommentsPanel',
+  [QuickfixCommandType.Close]: 'workbench.action.closePanel',
+};
+
+function describeList(stack: QuickfixStack, list: QuickfixList): string {
+  const count = list.validEntryCount;
+  return `error list ${stack.getLists().indexOf(list) + 1} of ${
+    stack.getLists().length
+  }; ${count} ${count === 1 ? 'error' : 'errors'} ; ${list.title}`;
+}
+
+function describeEntryPosition(entry: IQuickfixEntry): string {
+  if (!isValidEntry(entry)) {
+    return '';
+  }
+  const file = vscode.workspace.asRelativePath(entry.uri);
+  if (entry.line === undefined) {
+    return file;
+  }
+  return entry.column === undefined
+    ? `${file}:${entry.line + 1}`
+    : `${file}:${entry.line + 1}:${entry.column + 1}`;
+}
+
+/**
+ * Goes to an entry of a list, opening its document if it isn't the current one, and shows its message.
+ */
+export async function goToEntry(
+  vimState: VimState,
+  list: QuickfixList,
+  entry: IQuickfixEntry
+): Promise<void> {
+  quickfixLists.fireChange();
+  if (!isValidEntry(entry)) {
+    return;
+  }
+
+  let document: vscode.TextDocument;
+  try {
+    document = await vscode.workspace.openTextDocument(entry.uri);
+  } catch {
+    throw VimError.fromCode(ErrorCode.FileNoLongerAvailable, entry.uri.fsPath);
+  }
+  const position = document.validatePosition(
+    new vscode.Position(entry.line ?? 0, entry.column ?? 0)
+  );
+
+  globalState.jumpTracker.recordJump(Jump.fromStateNow(vimState));
+  if (document === vimState.document) {
+    vimState.cursors = [new Cursor(position, position)];
+  } else {
+    // The other editor's mode handler takes over from here.
+    await vscode.window.showTextDocument(document, {
+      selection: new vscode.Range(position, position),
+    });
+  }
+  StatusBar.setText(
+    vimState,
+    `(${list.entries.indexOf(entry) + 1} of ${list.entries.length}): ${entry.text}`
+  );
+}
+
+class QuickfixEntryQuickPickItem implements vscode.QuickPickItem {
+  index: number;
+
+  label: string;
+  description: string;
+
+  constructor(entry: IQuickfixEntry, index: number) {
+    this.index = index;
+    this.label = `${index + 1} ${describeEntryPosition(entry)}`;
+    this.description = entry.text;
+  }
+}
+
+class QuickfixListQuickPickItem implements vscode.QuickPickItem {
+  listNumber: number;
+
+  label: string;
+  description: string;
+
+  constructor(stack: QuickfixStack, list: QuickfixList) {
+    this.listNumber = stack.getLists().indexOf(list) + 1;
+    this.label = `error list ${this.listNumber} of ${stack.getLists().length}`;
+    this.description = `${list.validEntryCount} errors ; ${list.title}`;
+  }
+}
+
+/**
+ * Implements the commands which go through the quickfix list and the location lists, show them, and go back to
+ * older lists.
+ * https://vimhelp.org/quickfix.txt.html
+ */
+export class QuickfixCommand extends ExCommand {
+  public static argParser(type: QuickfixCommandType, location: boolean): Parser<QuickfixCommand> {
+    return seq(bangParser, optWhitespace.then(numberParser).fallback(undefined)).map(
+      ([bang, count]) => new QuickfixCommand({ type, location, bang, count })
+    );
+  }
+
+  public readonly arguments: IQuickfixCommandArguments;
+  constructor(args: IQuickfixCommandArguments) {
+    super();
+    this.arguments = args;
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    const { type, location, bang, count } = this.arguments;
+    const document = location ? vimState.document : undefined;
+    if (
+      location &&
+      !quickfixLists.hasLocationList(vimState.document) &&
+      commentsCommands[type] !== undefined
+    ) {
+      await vscode.commands.executeCommand(commentsCommands[type]);
+      return;
+    }
+    const stack = quickfixLists.getExistingStack(document);
+    const list = stack.currentList;
+
+    if (list === undefined && !location && problemsCommands[type] !== undefined) {
+      await vscode.commands.executeCommand(problemsCommands[type]);
+      return;
+    }
+
+    switch (type) {
+      case QuickfixCommandType.Open:
+        await openQuickfixView(location);
+        return;
+      case QuickfixCommandType.Window:
+        if (list !== undefined && list.validEntryCount > 0) {
+          await openQuickfixView(location);
+        } else {
+          await closeQuickfixView(location);
+        }
+        return;
+      case QuickfixCommandType.Close:
+        await closeQuickfixView(location);
+        return;
+      case QuickfixCommandType.History:
+        await this.pickList(vimState, stack);
+        return;
+      case QuickfixCommandType.Older:
+      case QuickfixCommandType.Newer: {
+        const older = stack.older(type === QuickfixCommandType.Older ? count ?? 1 : -(count ?? 1));
+        quickfixLists.fireChange();
+        StatusBar.setText(vimState, describeList(stack, older));
+        return;
+      }
+      default:
+    }
+
+    if (list === undefined) {
+      throw VimError.fromCode(location ? ErrorCode.NoLocationList : ErrorCode.NoErrors);
+    }
+
+    switch (type) {
+      case QuickfixCommandType.List:
+        await this.pickEntry(vimState, list, bang);
+        return;
+      case QuickfixCommandType.GoTo:
+        await goToEntry(vimState, list, list.goTo(count ?? list.index + 1));
+        return;
+      case QuickfixCommandType.First:
+        await goToEntry(vimState, list, list.goTo(count ?? 1));
+        return;
+      case QuickfixCommandType.Last:
+        await goToEntry(vimState, list, count === undefined ? list.last() : list.goTo(count));
+        return;
+      case QuickfixCommandType.Next:
+        await goToEntry(vimState, list, list.move(count ?? 1));
+        return;
+      case QuickfixCommandType.Previous:
+        await goToEntry(vimState, list, list.move(-(count ?? 1)));
+        return;
+      case QuickfixCommandType.NextFile:
+        await goToEntry(vimState, list, list.moveFile(count ?? 1));
+        return;
+      case QuickfixCommandType.PreviousFile:
+        await goToEntry(vimState, list, list.moveFile(-(count ?? 1)));
+        return;
+      default:
+    }
+  }
+
+  /**
+   * `:clist`, which lists the valid entries (or all of them with `!`) and goes to the one picked
+   */
+  private async pickEntry(vimState: VimState, list: QuickfixList, all: boolean): Promise<void> {
+    const items = list.entries
+      .map((entry, index) => new QuickfixEntryQuickPickItem(entry, index))
+      .filter((i) => all || isValidEntry(list.entries[i.index]));
+    if (items.length === 0) {
+      throw VimError.fromCode(ErrorCode.NoErrors);
+    }
+    const item = await vscode.window.showQuickPick(items, { placeHolder: list.title });
+    if (item) {
+      await goToEntry(vimState, list, list.goTo(item.index + 1));
+    }
+  }
+
+  /**
+   * `:chistory`, which lists the lists of the stack and makes the one picked current
+   */
+  private async pickList(vimState: VimState, stack: QuickfixStack): Promise<void> {
+    if (stack.getLists().length === 0) {
+      StatusBar.setText(vimState, 'No entries');
+      return;
+    }
+    const item = await vscode.window.showQuickPick(
+      stack.getLists().map((list) => new QuickfixListQuickPickItem(stack, list)),
+      { placeHolder: 'Go to an older or newer list' }
+    );
+    if (item) {
+      const list = stack.select(item.listNumber);
+      quickfixLists.fireChange();
+      StatusBar.setText(vimState, describeList(stack, list));
+    }
+  }
+}
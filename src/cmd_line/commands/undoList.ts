@@ -0,0 +1,50 @@
+import { QuickPickItem, window } from 'vscode';
+
+import { Cursor } from '../../common/motion/cursor';
+import { IUndoLeaf } from '../../history/historyTracker';
+import { VimState } from '../../state/vimState';
+import { ExCommand } from '../../vimscript/exCommand';
+
+class UndoLeafQuickPickItem implements QuickPickItem {
+  leaf: IUndoLeaf;
+
+  label: string;
+  description: string;
+  detail: string;
+
+  constructor(leaf: IUndoLeaf) {
+    this.leaf = leaf;
+    this.label = `#${leaf.sequenceNumber}`;
+    this.description = leaf.changes === 1 ? '1 change' : `${leaf.changes} changes`;
+    this.detail =
+      leaf.writeNumber === undefined
+        ? leaf.howLongAgo
+        : `${leaf.howLongAgo}, write ${leaf.writeNumber}`;
+  }
+}
+
+/**
+ * `:undol[ist]`
+ *
+ * Lists the last state of each branch of the undo tree, and goes to the one picked.
+ */
+export class UndoListCommand extends ExCommand {
+  async execute(vimState: VimState): Promise<void> {
+    const leaves = vimState.historyTracker.getUndoLeaves();
+    if (leaves.length === 0) {
+      window.showInformationMessage('Nothing to undo');
+      return;
+    }
+
+    const item = await window.showQuickPick(
+      leaves.reverse().map((leaf) => new UndoLeafQuickPickItem(leaf)),
+      { placeHolder: 'Go to the state at the end of an undo branch' }
+    );
+    if (item) {
+      const newPosition = await vimState.historyTracker.goToHistoryStep(item.leaf.sequenceNumber);
+      if (newPosition) {
+        vimState.cursors = [new Cursor(newPosition, newPosition)];
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { all, alt, optWhitespace, Parser, regexp, seq } from 'parsimmon';
+import * as vscode from 'vscode';
+import { ErrorCode, VimError } from '../../error';
+import { IQuickfixEntry, quickfixLists } from '../../quickfix/quickfix';
+import { globalState } from '../../state/globalState';
+import { VimState } from '../../state/vimState';
+import { ExCommand } from '../../vimscript/exCommand';
+import { bangParser } from '../../vimscript/parserUtils';
+import { Pattern, SearchDirection } from '../../vimscript/pattern';
+import { goToEntry } from './quickfix';
+
+export interface IVimgrepCommandArguments {
+  pattern: Pattern;
+  /** `g` to list every match rather than the first of each line, `j` not to go to the first one */
+  flags: string;
+  /** Globs relative to the workspace folders, or `%` for the current file */
+  files: string[];
+  /** Fill the location list of the current document rather than the quickfix list */
+  location: boolean;
+  /** Add to the current list rather than make a new one, as `:vimgrepadd` does */
+  add: boolean;
+}
+
+/**
+ * `:vim[grep][!] /{pattern}/[g][j] {file} ...`, `:vim[grep][!] {pattern} {file} ...` and their `:l` and `add`
+ * variants
+ *
+ * Searches the files for the pattern without an external program, and makes a list of the matches.
+ */
+export class VimgrepCommand extends ExCommand {
+  public static argParser(args: { location: boolean; add?: boolean }): Parser<VimgrepCommand> {
+    const delimitedPatternParser = regexp(/[^\w\s\\|"]/).chain((delimiter) =>
+      seq(Pattern.parser({ direction: SearchDirection.Forward, delimiter }), regexp(/[gj]*/))
+    );
+    // Without delimiters, the pattern ends at the first space
+    const wordPatternParser = Pattern.parser({
+      direction: SearchDirection.Forward,
+      delimiter: ' ',
+    }).map((pattern) => [pattern, ''] as [Pattern, string]);
+    return seq(
+      bangParser,
+      optWhitespace.then(alt(delimitedPatternParser, wordPatternParser)),
+      all
+    ).map(
+      ([_bang, [pattern, flags], files]) =>
+        new VimgrepCommand({
+          pattern,
+          flags,
+          files: files.split(/\s+/).filter((file) => file.length > 0),
+          location: args.location,
+          add: args.add ?? false,
+        })
+    );
+  }
+
+  public readonly arguments: IVimgrepCommandArguments;
+  constructor(args: IVimgrepCommandArguments) {
+    super();
+    this.arguments = args;
+  }
+
+  private async findFiles(vimState: VimState): Promise<vscode.Uri[]> {
+    const uris = new Map<string, vscode.Uri>();
+    for (const file of this.arguments.files) {
+      const found = file === '%' ? [vimState.document.uri] : await vscode.workspace.findFiles(file);
+      for (const uri of found) {
+        uris.set(uri.toString(), uri);
+      }
+    }
+    return [...uris.values()].sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+  }
+
+  private async readFile(uri: vscode.Uri): Promise<string> {
+    // Search what's in the editor for documents with unsaved changes
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString()
+    );
+    if (document !== undefined) {
+      return document.getText();
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+  }
+
+  async execute(vimState: VimState): Promise<void> {
+    if (this.arguments.files.length === 0) {
+      throw VimError.fromCode(ErrorCode.ArgumentRequired);
+    }
+    let pattern = this.arguments.pattern;
+    if (pattern.patternString === '') {
+      const previousPattern = globalState.searchState?.pattern;
+      if (previousPattern === undefined || previousPattern.patternString === '') {
+        throw VimError.fromCode(ErrorCode.NoPreviousRegularExpression);
+      }
+      pattern = previousPattern;
+    }
+
+    const everyMatch = this.arguments.flags.includes('g');
+    const regex = new RegExp(
+      pattern.regex.source,
+      pattern.regex.flags.includes('g') ? pattern.regex.flags : `${pattern.regex.flags}g`
+    );
+    const entries: IQuickfixEntry[] = [];
+    for (const uri of await this.findFiles(vimState)) {
+      let text: string;
+      try {
+        text = await this.readFile(uri);
+      } catch {
+        // Like Vim, skip the files which can't be read
+        continue;
+      }
+      text.split(/\r?\n/).forEach((lineText, line) => {
+        regex.lastIndex = 0;
+        for (let match = regex.exec(lineText); match !== null; match = regex.exec(lineText)) {
+          entries.push({ uri, line, column: match.index, text: lineText.trim() });
+          if (!everyMatch) {
+            break;
+          } else if (match[0].length === 0) {
+            regex.lastIndex++;
+          }
+        }
+      });
+    }
+    if (entries.length === 0) {
+      throw VimError.fromCode(ErrorCode.NoMatch, pattern.patternString);
+    }
+
+    const list = quickfixLists.setList(
+      this.arguments.location ? vimState.document : undefined,
+      `:vimgrep /${pattern.patternString}/${this.arguments.flags} ${this.arguments.files.join(
+        ' '
+      )}`,
+      entries,
+      this.arguments.add
+    );
+    if (!this.arguments.flags.includes('j')) {
+      await goToEntry(vimState, list, list.goTo(list.entries.length - entries.length + 1));
+    }
+  }
+}
@@ -218,6 +218,12 @@ class Configuration implements IConfiguration {
 
   shell = '';
 
+  makeprg = 'make';
+  grepprg = 'grep -n $* /dev/null';
+  errorformat = '%f:%l:%c: %trror: %m,%f:%l:%c: %tarning: %m,%f:%l:%c: %m,%f:%l: %m';
+  grepformat = '%f:%l:%c:%m,%f:%l:%m';
+  errorfile = 'errors.err';
+
   useCtrlKeys = false;
 
   overrideCopy = true;
@@ -297,6 +303,8 @@ class Configuration implements IConfiguration {
 
   history = 50;
 
+  undofile = false;
+
   inccommand: '' | 'append' | 'replace' = '';
 
   incsearch = true;
@@ -312,6 +320,8 @@ class Configuration implements IConfiguration {
     visualline: '#005f87',
     visualblock: '#86592d',
     replace: '#000000',
+    structural: '#005f00',
+    structuralvisual: '#5f00af',
   };
 
   searchHighlightColor = '';
@@ -418,6 +428,25 @@ class Configuration implements IConfiguration {
 
   digraphs: { [shortcut: string]: Digraph } = {};
 
+  structuralWrapTemplates: { [key: string]: string } = {
+    i: 'if (|) {\n\t$body\n}',
+    f: 'for (|;;) {\n\t$body\n}',
+    w: 'while (|) {\n\t$body\n}',
+    b: '{\n\t$body\n}',
+    d: 'do {\n\t$body\n} while (0);',
+    l: 'auto | = [&]() {\n\t$body\n};',
+  };
+
+  structuralAstProviders: { [languageId: string]: 'clangd' | 'tree-sitter' } = {
+    c: 'clangd',
+    cpp: 'clangd',
+    python: 'tree-sitter',
+    typescript: 'tree-sitter',
+    typescriptreact: 'tree-sitter',
+  };
+
+  structuralInlayHints = true;
+
   gdefault = false;
   substituteGlobalFlag = false; // Deprecated in favor of gdefault
 
@@ -444,6 +473,8 @@ class Configuration implements IConfiguration {
     visualline: undefined,
     visualblock: undefined,
     replace: undefined,
+    structural: undefined,
+    structuralvisual: undefined,
   };
 
   getCursorStyleForMode(modeName: string): vscode.TextEditorCursorStyle | undefined {
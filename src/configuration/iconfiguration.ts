@@ -9,6 +9,8 @@ export interface IModeSpecificStrings<T> {
   visualline: T | undefined;
   visualblock: T | undefined;
   replace: T | undefined;
+  structural: T | undefined;
+  structuralvisual: T | undefined;
 }
 
 export interface IKeyRemapping {
@@ -228,6 +230,11 @@ export interface IConfiguration {
    */
   history: number;
 
+  /**
+   * Save the undo history of each file when it is written, and restore it when the file is opened again unchanged
+   */
+  undofile: boolean;
+
   /**
    * Show substitutions while user is typing?
    */
@@ -444,4 +451,48 @@ export interface IConfiguration {
    * Path to the shell to use for `!` and `:!` commands.
    */
   shell: string;
+
+  /**
+   * Program `:make` runs, where `$*` stands for the arguments
+   */
+  makeprg: string;
+
+  /**
+   * Program `:grep` runs, where `$*` stands for the arguments
+   */
+  grepprg: string;
+
+  /**
+   * Formats of the lines of output of `:make`, `:cfile` and `:cexpr`, of which `%f`, `%l`, `%c`, `%m`, `%t`, `%n`,
+   * `%%` and the `%-G` prefix are supported
+   */
+  errorformat: string;
+
+  /**
+   * Formats of the lines of output of `:grep`
+   */
+  grepformat: string;
+
+  /**
+   * File `:cfile` reads by default
+   */
+  errorfile: string;
+
+  /**
+   * Constructs the structural wrap command can put nodes in, by key. In a template, `$body` stands for the
+   * wrapped nodes, `|` for where the cursor is left and each leading tab for one level of indentation.
+   */
+  structuralWrapTemplates: { [key: string]: string };
+
+  /**
+   * Where structural editing gets the AST of a document from, by language id. Languages which aren't listed use
+   * clangd if it handles them.
+   */
+  structuralAstProviders: { [languageId: string]: 'clangd' | 'tree-sitter' };
+
+  /**
+   * Label the siblings of the current node with their inlay hints in Structural mode, when the editor doesn't show
+   * inlay hints itself.
+   */
+  structuralInlayHints: boolean;
 }
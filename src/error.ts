@@ -13,17 +13,25 @@ export enum ErrorCode {
   NoPreviousCommand = 34,
   NoPreviousRegularExpression = 35,
   NoWriteSinceLastChange = 37,
+  CantOpenErrorfile = 40,
+  NoErrors = 42,
+  GlobalCannotBeRecursive = 147,
   ErrorWritingToFile = 208,
   FileNoLongerAvailable = 211,
   RecursiveMapping = 223,
   NoStringUnderCursor = 348,
   NothingInRegister = 353,
   InvalidRegisterName = 354,
+  InvalidInFormatStringPrefix = 376,
+  InvalidInFormatString = 377,
+  AtBottomOfQuickfixStack = 380,
+  AtTopOfQuickfixStack = 381,
   SearchHitTop = 384,
   SearchHitBottom = 385,
   CannotCloseLastWindow = 444,
   ArgumentRequired = 471,
   InvalidArgument = 474,
+  NoMatch = 480,
   NoRangeAllowed = 481,
   PatternNotFound = 486,
   TrailingCharacters = 488,
@@ -31,11 +39,13 @@ export enum ErrorCode {
   NoBuffersDeleted = 516,
   UnknownOption = 518,
   NumberRequiredAfterEqual = 521,
+  NoMoreItems = 553,
   AtStartOfChangeList = 662,
   AtEndOfChangeList = 663,
   ChangeListIsEmpty = 664,
   StartPastEnd = 727,
   NoPreviouslyUsedRegister = 748,
+  NoLocationList = 776,
 }
 
 export const ErrorMessage: IErrorMessage = {
@@ -49,17 +59,25 @@ export const ErrorMessage: IErrorMessage = {
   34: 'No previous command',
   35: 'No previous regular expression',
   37: 'No write since last change (add ! to override)',
+  40: "Can't open errorfile",
+  42: 'No Errors',
+  147: 'Cannot do :global recursive',
   208: 'Error writing to file',
   211: 'File no longer available', // TODO: Should be `File "[file_name]" no longer available`
   223: 'Recursive mapping',
   348: 'No string under cursor',
   353: 'Nothing in register',
   354: 'Invalid register name',
+  376: 'Invalid % in format string prefix',
+  377: 'Invalid % in format string',
+  380: 'At bottom of quickfix stack',
+  381: 'At top of quickfix stack',
   384: 'Search hit TOP without match for',
   385: 'Search hit BOTTOM without match for',
   444: 'Cannot close last window',
   471: 'Argument required',
   474: 'Invalid argument',
+  480: 'No match',
   481: 'No range allowed',
   486: 'Pattern not found',
   488: 'Trailing characters',
@@ -67,11 +85,13 @@ export const ErrorMessage: IErrorMessage = {
   516: 'No buffers were deleted',
   518: 'Unknown option',
   521: 'Number required after =',
+  553: 'No more items',
   662: 'At start of changelist',
   663: 'At end of changelist',
   664: 'changelist is empty',
   727: 'Start past end',
   748: 'No previously used register',
+  776: 'No location list',
 };
 
 export class VimError extends Error {
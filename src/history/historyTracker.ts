@@ -8,6 +8,10 @@
  * A Step is multiple Changes.
  *
  * Undo/Redo will advance forward or backwards through Steps.
+ *
+ * Steps form a tree: a change made after an undo starts a new branch, and
+ * `g-`, `g+`, `:earlier` and `:later` move between branches in the order
+ * the Steps were made.
  */
 import DiffMatchPatch = require('diff-match-patch');
 import * as vscode from 'vscode';
@@ -18,10 +22,17 @@ import { StatusBar } from '../statusBar';
 import { Position } from 'vscode';
 import { Jump } from '../jumps/jump';
 import { globalState } from '../state/globalState';
-import { Mode } from '../mode/mode';
+import { isStructuralMode, Mode } from '../mode/mode';
 import { ErrorCode, VimError } from '../error';
 import { Logger } from '../util/logger';
 import { earlierOf } from '../common/motion/position';
+import {
+  ISerializedMark,
+  ISerializedPosition,
+  ISerializedUndoStack,
+  readUndoFile,
+  writeUndoFile,
+} from './undoFile';
 
 const diffEngine = new DiffMatchPatch.diff_match_patch();
 diffEngine.Diff_Timeout = 1; // 1 second
@@ -103,10 +114,39 @@ export interface IMark {
   document?: vscode.TextDocument; // only required when using global marks (isUppercaseMark is true)
 }
 
+/**
+ * A state of the document in the undo tree: the original document, or the one a HistoryStep leads to.
+ */
+interface UndoTreeNode {
+  /**
+   * The steps made from this state, oldest first. There are several when changes were made after undoing back to it.
+   */
+  children: HistoryStep[];
+
+  /**
+   * The child which redo goes to: the one last undone or, failing that, the last one made.
+   */
+  redoChild: HistoryStep | undefined;
+}
+
 /**
  * An undo's worth of changes; generally corresponds to a single action.
  */
-class HistoryStep {
+class HistoryStep implements UndoTreeNode {
+  /**
+   * The number of this step in the order steps were made, from 1. The original document is 0.
+   */
+  public sequenceNumber = 0;
+
+  /**
+   * The step this one was made after, or undefined if it was made from the original document.
+   */
+  public parent: HistoryStep | undefined;
+
+  public children: HistoryStep[] = [];
+
+  public redoChild: HistoryStep | undefined;
+
   /**
    * The insertions and deletions that occured in this history step.
    */
@@ -134,6 +174,18 @@ class HistoryStep {
    */
   public marks: IMark[] = [];
 
+  /**
+   * The path to the AST node which was selected in Structural mode at the start of this history step.
+   * Restored by `u` in Structural mode.
+   */
+  public astNodePathBefore: number[] | undefined;
+
+  /**
+   * The path to the AST node which was selected in Structural mode once this history step was finished.
+   * Restored by `<C-r>` in Structural mode.
+   */
+  public astNodePathAfter: number[] | undefined;
+
   /**
    * HACK: true if this step came from `U`.
    * In `UU`, the second `U` should undo the first, and no more.
@@ -221,50 +273,101 @@ class HistoryStep {
 }
 
 /**
- * A simple wrapper around a list of HistorySteps, for sanity's sake
+ * How far `:earlier` and `:later` go: a number of history steps, of seconds, or of writes of the document.
+ */
+export type HistoryTimeUnit = 'step' | 'second' | 'write';
+
+/**
+ * A leaf of the undo tree, as listed by `:undolist`.
+ */
+export interface IUndoLeaf {
+  sequenceNumber: number;
+  /**
+   * The number of history steps from the original document to this one.
+   */
+  changes: number;
+  howLongAgo: string;
+  /**
+   * The number of the last write of the document in this state, if it was written.
+   */
+  writeNumber: number | undefined;
+}
+
+function serializePosition(position: Position): ISerializedPosition {
+  return { line: position.line, character: position.character };
+}
+
+function deserializePosition(position: ISerializedPosition): Position {
+  return new Position(position.line, position.character);
+}
+
+/**
+ * File marks are left out, as they belong to every document rather than to the history of this one.
+ */
+function serializeMarks(marks: IMark[]): ISerializedMark[] {
+  return marks
+    .filter((mark) => !mark.isUppercaseMark)
+    .map((mark) => ({ name: mark.name, position: serializePosition(mark.position) }));
+}
+
+function deserializeMarks(marks: ISerializedMark[]): IMark[] {
+  return marks.map((mark) => ({
+    name: mark.name,
+    position: deserializePosition(mark.position),
+    isUppercaseMark: false,
+  }));
+}
+
+/**
+ * The tree of HistorySteps, where making a change after an undo starts a new branch rather than discarding the steps
+ * which were undone.
  */
 class UndoStack {
+  // Every HistoryStep in the order they were made, so that a step's index is one less than its sequence number
   private historySteps: HistoryStep[] = [];
-  private currentStepIndex = -1;
+  private currentStep: HistoryStep | undefined;
 
-  // The marks as they existed before the first HistoryStep
-  private initialMarks: IMark[] = [];
+  // The steps made from the original document
+  private readonly root: UndoTreeNode = { children: [], redoChild: undefined };
 
-  public getHistoryStepAtIndex(idx: number): HistoryStep | undefined {
-    return this.historySteps[idx];
-  }
+  // The states the document was written in, in order, where undefined is the original document
+  private writtenStates: Array<HistoryStep | undefined> = [];
 
-  public getCurrentHistoryStepIndex(): number {
-    return this.currentStepIndex;
-  }
+  // The marks as they existed before the first HistoryStep
+  private initialMarks: IMark[] = [];
 
-  public getStackDepth(): number {
-    return this.historySteps.length;
+  /**
+   * @returns the step with the given sequence number, or undefined for 0, the original document
+   */
+  public getHistoryStep(sequenceNumber: number): HistoryStep | undefined {
+    return this.historySteps[sequenceNumber - 1];
   }
 
   /**
    * @returns the current HistoryStep, or undefined if nothing's been done yet
    */
   public getCurrentHistoryStep(): HistoryStep | undefined {
-    if (this.currentStepIndex === -1) {
-      return undefined;
-    }
+    return this.currentStep;
+  }
 
-    return this.historySteps[this.currentStepIndex];
+  private getNode(step: HistoryStep | undefined): UndoTreeNode {
+    return step ?? this.root;
   }
 
   /**
-   * Goes forward in time (redo), if possible
+   * Goes forward in time (redo) to `child`, or else to the branch last undone or made, if possible
    *
    * @returns the new current HistoryStep, or undefined if none exists
    */
-  public stepForward(): HistoryStep | undefined {
-    if (this.currentStepIndex === this.historySteps.length - 1) {
-      return undefined;
+  public stepForward(child?: HistoryStep): HistoryStep | undefined {
+    const node = this.getNode(this.currentStep);
+    if (child) {
+      node.redoChild = child;
     }
-
-    this.currentStepIndex++;
-    return this.getCurrentHistoryStep();
+    if (node.redoChild) {
+      this.currentStep = node.redoChild;
+    }
+    return node.redoChild;
   }
 
   /**
@@ -273,25 +376,86 @@ class UndoStack {
    * @returns the old HistoryStep, or undefined if there was none
    */
   public stepBackward(): HistoryStep | undefined {
-    const step = this.getCurrentHistoryStep();
+    const step = this.currentStep;
     if (step) {
-      this.currentStepIndex--;
+      this.currentStep = step.parent;
+      this.getNode(step.parent).redoChild = step;
     }
     return step;
   }
 
+  /**
+   * The steps to undo, latest first, and then the steps to redo to go from the current state to `target`.
+   */
+  public getPathTo(target: HistoryStep | undefined): { undo: HistoryStep[]; redo: HistoryStep[] } {
+    const ancestors = (step: HistoryStep | undefined) => {
+      const steps = new Set<HistoryStep>();
+      for (; step; step = step.parent) {
+        steps.add(step);
+      }
+      return steps;
+    };
+    const fromCurrent = ancestors(this.currentStep);
+    const fromTarget = ancestors(target);
+    return {
+      undo: [...fromCurrent].filter((step) => !fromTarget.has(step)),
+      redo: [...fromTarget].filter((step) => !fromCurrent.has(step)).reverse(),
+    };
+  }
+
+  /**
+   * Finds the state `amount` units before (if negative) or after the current one, in the order the states were
+   * made in rather than along the current branch.
+   *
+   * @returns the step of that state, or undefined for the original document
+   */
+  public findState(amount: number, unit: HistoryTimeUnit): HistoryStep | undefined {
+    const current = this.currentStep?.sequenceNumber ?? 0;
+    const latest = this.historySteps.length;
+    if (latest === 0) {
+      return undefined;
+    } else if (unit === 'step') {
+      return this.getHistoryStep(Math.max(0, Math.min(current + amount, latest)));
+    } else if (unit === 'second') {
+      // The original document is taken to be as old as the first change to it
+      const time = (this.currentStep ?? this.historySteps[0]).timestamp.getTime() + amount * 1000;
+      let state: HistoryStep | undefined;
+      for (const step of this.historySteps) {
+        if (step.timestamp.getTime() <= time) {
+          state = step;
+        }
+      }
+      return state;
+    } else {
+      // The last write of the current state, or of one before it
+      let write = 0;
+      this.writtenStates.forEach((state, i) => {
+        if ((state?.sequenceNumber ?? 0) <= current) {
+          write = i + 1;
+        }
+      });
+      // Going back to the last write's state only counts as one write if there were changes since
+      const changedSinceWrite = write === 0 || this.writtenStates[write - 1] !== this.currentStep;
+      const target = amount < 0 && changedSinceWrite ? write + amount + 1 : write + amount;
+      if (target < 1) {
+        return undefined;
+      }
+      return target > this.writtenStates.length
+        ? this.getHistoryStep(latest)
+        : this.writtenStates[target - 1];
+    }
+  }
+
   /**
    * Adds a change to the current unfinished step if there is one, or a new step if there isn't
    */
   public pushChange(change: DocumentChange): void {
     let step = this.getCurrentHistoryStep();
     if (step === undefined || step.isFinished) {
-      this.currentStepIndex++;
-      this.historySteps.splice(this.currentStepIndex);
       step = new HistoryStep({
         marks: step?.marks ?? this.initialMarks,
       });
-      this.historySteps.push(step);
+      this.pushHistoryStep(step);
     }
 
     step.changes.push(change);
@@ -302,9 +466,92 @@ class UndoStack {
    * @see pushChange
    */
   public pushHistoryStep(step: HistoryStep) {
-    this.currentStepIndex++;
-    this.historySteps.splice(this.currentStepIndex + 1);
+    const node = this.getNode(this.currentStep);
+    step.parent = this.currentStep;
+    step.sequenceNumber = this.historySteps.length + 1;
+    node.children.push(step);
+    node.redoChild = step;
     this.historySteps.push(step);
+    this.currentStep = step;
+  }
+
+  /**
+   * Remembers that the document was written in its current state, for `:earlier {N}f`.
+   */
+  public recordWrite(): void {
+    this.writtenStates.push(this.currentStep);
+  }
+
+  public getLeaves(): IUndoLeaf[] {
+    return this.historySteps
+      .filter((step) => step.children.length === 0)
+      .map((step) => {
+        let changes = 0;
+        for (let s: HistoryStep | undefined = step; s; s = s.parent) {
+          changes++;
+        }
+        const writeNumber = this.writtenStates.lastIndexOf(step) + 1;
+        return {
+          sequenceNumber: step.sequenceNumber,
+          changes,
+          howLongAgo: step.howLongAgo(),
+          writeNumber: writeNumber > 0 ? writeNumber : undefined,
+        };
+      });
+  }
+
+  /**
+   * Converts the tree to plain data, for the undofile.
+   */
+  public serialize(): ISerializedUndoStack {
+    const sequenceNumber = (step: HistoryStep | undefined) => step?.sequenceNumber ?? 0;
+    return {
+      steps: this.historySteps.map((step) => ({
+        parent: sequenceNumber(step.parent),
+        redoChild: sequenceNumber(step.redoChild),
+        changes: step.changes.map((change) => ({
+          start: serializePosition(change.start),
+          before: change.before,
+          after: change.after,
+        })),
+        timestamp: step.timestamp.getTime(),
+        cursorStart: step.cursorStart && serializePosition(step.cursorStart),
+        marks: serializeMarks(step.marks),
+        cameFromU: step.cameFromU,
+      })),
+      current: sequenceNumber(this.currentStep),
+      rootRedoChild: sequenceNumber(this.root.redoChild),
+      writtenStates: this.writtenStates.map(sequenceNumber),
+      initialMarks: serializeMarks(this.initialMarks),
+    };
+  }
+
+  public static deserialize(data: ISerializedUndoStack): UndoStack {
+    const undoStack = new UndoStack();
+    for (const serializedStep of data.steps) {
+      const step = new HistoryStep({
+        marks: deserializeMarks(serializedStep.marks),
+        changes: serializedStep.changes.map((change) =>
+          DocumentChange.replace(deserializePosition(change.start), change.before, change.after)
+        ),
+        cameFromU: serializedStep.cameFromU,
+      });
+      step.isFinished = true;
+      step.timestamp = new Date(serializedStep.timestamp);
+      step.cursorStart =
+        serializedStep.cursorStart && deserializePosition(serializedStep.cursorStart);
+      undoStack.currentStep = undoStack.getHistoryStep(serializedStep.parent);
+      undoStack.pushHistoryStep(step);
+    }
+
+    data.steps.forEach((serializedStep, i) => {
+      undoStack.historySteps[i].redoChild = undoStack.getHistoryStep(serializedStep.redoChild);
+    });
+    undoStack.root.redoChild = undoStack.getHistoryStep(data.rootRedoChild);
+    undoStack.currentStep = undoStack.getHistoryStep(data.current);
+    undoStack.writtenStates = data.writtenStates.map((n) => undoStack.getHistoryStep(n));
+    undoStack.initialMarks = deserializeMarks(data.initialMarks);
+    return undoStack;
   }
 
   public getCurrentMarkList(): IMark[] {
@@ -383,7 +630,20 @@ export class HistoryTracker {
 
   private nextStepStartPosition: Position | undefined;
 
-  private readonly undoStack: UndoStack;
+  /**
+   * The path to the AST node last selected in Structural mode, and the version of the document it was selected in.
+   */
+  private astNodePath: { path: number[]; versionNumber: number } | undefined;
+
+  private nextStepAstNodePath: number[] | undefined;
+
+  private undoStack: UndoStack;
+
+  /**
+   * Whether the document was written in Insert or Replace mode, in which case the write is recorded once the step
+   * the insertion makes is finished.
+   */
+  private writtenDuringInsertion = false;
 
   private readonly changeList: ChangeList;
 
@@ -647,6 +907,10 @@ export class HistoryTracker {
       const cursor = this.vimState.cursorsInitialState[0];
       this.nextStepStartPosition = earlierOf(cursor.start, cursor.stop);
       Logger.debug(`Set nextStepStartPosition to ${this.nextStepStartPosition}`);
+
+      if (this.astNodePath?.versionNumber === this.previousDocumentState.versionNumber) {
+        this.nextStepAstNodePath = this.astNodePath.path;
+      }
     }
 
     if (
@@ -727,6 +991,9 @@ export class HistoryTracker {
       currentHistoryStep.cursorStart ??= this.nextStepStartPosition;
       this.nextStepStartPosition = undefined;
 
+      currentHistoryStep.astNodePathBefore ??= this.nextStepAstNodePath;
+      this.nextStepAstNodePath = undefined;
+
       currentHistoryStep.merge(this.vimState.document);
 
       currentHistoryStep.marks = this.updateAndReturnMarks(this.vimState.document);
@@ -739,6 +1006,32 @@ export class HistoryTracker {
 
       Logger.debug(`Finished history step with ${changes.length} change(s)`);
     }
+
+    if (this.writtenDuringInsertion) {
+      this.writtenDuringInsertion = false;
+      this.undoStack.recordWrite();
+    }
+  }
+
+  /**
+   * Records the AST node selected in Structural mode, which is the one the history step started by the next change
+   * will restore on undo. If the document was just changed, it is also the one the last history step restores on redo.
+   *
+   * @param path as returned by `getAstNodePath`, or undefined if no node is selected
+   */
+  public setAstNodePath(path: number[] | undefined): void {
+    const versionNumber = this.getDocumentVersion();
+    this.astNodePath = path && { path, versionNumber };
+
+    const currentHistoryStep = this.undoStack.getCurrentHistoryStep();
+    if (
+      path &&
+      currentHistoryStep?.isFinished &&
+      currentHistoryStep.astNodePathAfter === undefined &&
+      versionNumber === this.previousDocumentState.versionNumber
+    ) {
+      currentHistoryStep.astNodePathAfter = path;
+    }
   }
 
   /**
@@ -752,20 +1045,9 @@ export class HistoryTracker {
       return undefined;
     }
 
-    for (const change of step.changes.slice(0).reverse()) {
-      await change.undo(this.vimState.editor);
-    }
-
+    await this.undoChanges(step);
     this.ignoreChange();
-
-    // TODO: if there are more/fewer lines after undoing the change, it should say so
-    const changes = step.changes.length === 1 ? `1 change` : `${step.changes.length} changes`;
-    StatusBar.setText(
-      this.vimState,
-      `${changes}; before #${this.undoStack.getCurrentHistoryStepIndex() + 1}  ${step.howLongAgo()}`
-    );
-
-    return step.cursorStart;
+    return this.reportHistoryStep(step, 'undo');
   }
 
   /**
@@ -779,20 +1061,132 @@ export class HistoryTracker {
       return undefined;
     }
 
+    await this.redoChanges(step);
+    this.ignoreChange();
+    return this.reportHistoryStep(step, 'redo');
+  }
+
+  /**
+   * Logic for `g-`, `g+`, `:earlier` and `:later`: goes to the state `amount` units before (if negative) or after
+   * the current one in time, undoing and redoing steps across branches of the undo tree as needed.
+   *
+   * @returns the new cursor position, or undefined if there is no such state
+   */
+  public async goToEarlierOrLaterState(
+    amount: number,
+    unit: HistoryTimeUnit
+  ): Promise<Position | undefined> {
+    return this.goToState(this.undoStack.findState(amount, unit));
+  }
+
+  /**
+   * Goes to the state left by the step with the given sequence number, 0 being the original document.
+   *
+   * @returns the new cursor position, or undefined if there is no such state or it is the current one
+   */
+  public async goToHistoryStep(sequenceNumber: number): Promise<Position | undefined> {
+    const step = this.undoStack.getHistoryStep(sequenceNumber);
+    if (sequenceNumber !== 0 && step === undefined) {
+      return undefined;
+    }
+    return this.goToState(step);
+  }
+
+  private async goToState(target: HistoryStep | undefined): Promise<Position | undefined> {
+    const { undo, redo } = this.undoStack.getPathTo(target);
+    for (const step of undo) {
+      this.undoStack.stepBackward();
+      await this.undoChanges(step);
+    }
+    for (const step of redo) {
+      this.undoStack.stepForward(step);
+      await this.redoChanges(step);
+    }
+    this.ignoreChange();
+
+    if (redo.length > 0) {
+      return this.reportHistoryStep(redo[redo.length - 1], 'redo');
+    } else if (undo.length > 0) {
+      return this.reportHistoryStep(undo[undo.length - 1], 'undo');
+    }
+    return undefined;
+  }
+
+  private async undoChanges(step: HistoryStep): Promise<void> {
+    for (const change of step.changes.slice(0).reverse()) {
+      await change.undo(this.vimState.editor);
+    }
+  }
+
+  private async redoChanges(step: HistoryStep): Promise<void> {
     // TODO: do these transformations in a batch
     for (const change of step.changes) {
       await change.do(this.vimState.editor);
     }
+  }
 
-    this.ignoreChange();
-
+  /**
+   * Shows what was undone or redone, and restores the AST node selected before or after the step in Structural mode.
+   *
+   * @returns the cursor position at the start of the step, or the current one if the step doesn't know where it
+   * started, e.g. if it was restored from an undofile written without it
+   */
+  private reportHistoryStep(step: HistoryStep, direction: 'undo' | 'redo'): Position {
+    // TODO: if there are more/fewer lines after undoing the change, it should say so
     const changes = step.changes.length === 1 ? `1 change` : `${step.changes.length} changes`;
     StatusBar.setText(
       this.vimState,
-      `${changes}; after #${this.undoStack.getCurrentHistoryStepIndex()}  ${step.howLongAgo()}`
+      `${changes}; ${direction === 'undo' ? 'before' : 'after'} #${
+        step.sequenceNumber
+      }  ${step.howLongAgo()}`
+    );
+
+    if (isStructuralMode(this.vimState.currentMode)) {
+      this.vimState.pendingAstNodePath =
+        (direction === 'undo' ? step.astNodePathBefore : step.astNodePathAfter) ?? null;
+    }
+
+    return (
+      step.cursorStart ?? this.vimState.document.validatePosition(this.vimState.cursorStopPosition)
     );
+  }
+
+  /**
+   * Remembers that the document was written in its current state, for `:earlier {N}f` and `:later {N}f`.
+   */
+  public recordWrite(): void {
+    if (this.vimState.currentMode === Mode.Insert || this.vimState.currentMode === Mode.Replace) {
+      // Adding the changes made so far would cut the insertion in two steps, so wait until it is over
+      this.writtenDuringInsertion = true;
+      return;
+    }
+    this.addChange();
+    this.undoStack.recordWrite();
+  }
 
-    return step.cursorStart;
+  /**
+   * Writes the history to the document's undofile, to be restored when it is next opened.
+   */
+  public async saveUndoFile(): Promise<void> {
+    await writeUndoFile(this.vimState.document, this.undoStack.serialize());
+  }
+
+  /**
+   * Restores the history from the document's undofile, if it was written with the document as it is now.
+   */
+  public async loadUndoFile(): Promise<void> {
+    const undoStack = await readUndoFile(this.vimState.document);
+    if (undoStack) {
+      this.undoStack = UndoStack.deserialize(undoStack);
+      this.ignoreChange();
+    }
+  }
+
+  /**
+   * Logic for `:undolist`
+   */
+  public getUndoLeaves(): IUndoLeaf[] {
+    return this.undoStack.getLeaves();
   }
 
   /**
@@ -824,8 +1218,7 @@ export class HistoryTracker {
     let lastChange = currentHistoryStep.changes[currentHistoryStep.changes.length - 1];
     const undoLine = lastChange.afterRange.end.line;
 
-    for (let stepIdx = this.undoStack.getCurrentHistoryStepIndex(); stepIdx >= 0; stepIdx--) {
-      const step = this.undoStack.getHistoryStepAtIndex(stepIdx)!;
+    for (let step: HistoryStep | undefined = currentHistoryStep; step; step = step.parent) {
       for (let change of [...step.changes].reverse()) {
         /*
          * This conditional accounts for the behavior where the change is a newline
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { mkdirAsync, readFileAsync, writeFileAsync } from 'platform/fs';
+
+import { Globals } from '../globals';
+import { Logger } from '../util/logger';
+
+const UNDO_FILE_FORMAT_VERSION = 1;
+
+/**
+ * Undofiles which haven't been written for this long are deleted.
+ */
+const MAX_UNDO_FILE_AGE_MILLIS = 30 * 24 * 60 * 60 * 1000;
+
+export interface ISerializedPosition {
+  line: number;
+  character: number;
+}
+
+export interface ISerializedMark {
+  name: string;
+  position: ISerializedPosition;
+}
+
+export interface ISerializedHistoryStep {
+  /**
+   * Steps are referred to by their sequence number, where 0 is the original document.
+   */
+  parent: number;
+  redoChild: number;
+  changes: Array<{ start: ISerializedPosition; before: string; after: string }>;
+  timestamp: number;
+  cursorStart: ISerializedPosition | undefined;
+  marks: ISerializedMark[];
+  cameFromU: boolean;
+}
+
+/**
+ * An undo tree as it is written to an undofile, with its steps in the order they were made.
+ */
+export interface ISerializedUndoStack {
+  steps: ISerializedHistoryStep[];
+  current: number;
+  rootRedoChild: number;
+  writtenStates: number[];
+  initialMarks: ISerializedMark[];
+}
+
+interface IUndoFile {
+  version: number;
+  fileName: string;
+  contentHash: string;
+  undoStack: ISerializedUndoStack;
+}
+
+/**
+ * Two polynomial hashes of `text` along with its length, which is plenty to tell whether a file changed since its
+ * undofile was written.
+ */
+function hash(text: string): string {
+  let h1 = 0;
+  let h2 = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = (h1 * 48271 + ch) % 2147483647;
+    h2 = (h2 * 65599 + ch) % 4294967291;
+  }
+  return `${text.length.toString(36)}-${h1.toString(36)}-${h2.toString(36)}`;
+}
+
+function getUndoDirectory(): string {
+  return path.join(Globals.extensionStoragePath, 'undo');
+}
+
+function getUndoFilePath(document: vscode.TextDocument): string {
+  return path.join(getUndoDirectory(), `${hash(document.uri.fsPath)}.json`);
+}
+
+/**
+ * Writes the undo tree of a document to its undofile, along with the hash of the content it leads to.
+ */
+export async function writeUndoFile(
+  document: vscode.TextDocument,
+  undoStack: ISerializedUndoStack
+): Promise<void> {
+  if (document.uri.scheme !== 'file') {
+    return;
+  }
+
+  const undoFile: IUndoFile = {
+    version: UNDO_FILE_FORMAT_VERSION,
+    fileName: document.uri.fsPath,
+    contentHash: hash(document.getText()),
+    undoStack,
+  };
+  const filePath = getUndoFilePath(document);
+  try {
+    await mkdirAsync(getUndoDirectory(), { recursive: true });
+    await writeFileAsync(filePath, JSON.stringify(undoFile), 'utf-8');
+  } catch (err) {
+    Logger.error(`Failed to save undo history. filepath=${filePath}. err=${err}.`);
+  }
+}
+
+/**
+ * Reads the undo tree of a document from its undofile, unless the document was changed since it was written.
+ */
+export async function readUndoFile(
+  document: vscode.TextDocument
+): Promise<ISerializedUndoStack | undefined> {
+  if (document.uri.scheme !== 'file' || document.isDirty) {
+    return undefined;
+  }
+
+  const filePath = getUndoFilePath(document);
+  let data: string;
+  try {
+    data = await readFileAsync(filePath, 'utf-8');
+  } catch (err) {
+    if (err.code !== 'ENOENT') {
+      Logger.warn(`Failed to load undo history. path=${filePath} err=${err}.`);
+    }
+    return undefined;
+  }
+
+  try {
+    const undoFile: IUndoFile = JSON.parse(data);
+    if (
+      undoFile.version !== UNDO_FILE_FORMAT_VERSION ||
+      undoFile.fileName !== document.uri.fsPath ||
+      undoFile.contentHash !== hash(document.getText())
+    ) {
+      Logger.debug(`Ignoring undo history of another version of the file. path=${filePath}`);
+      return undefined;
+    }
+    return undoFile.undoStack;
+  } catch (e) {
+    Logger.warn(`Ignoring corrupted undo history. path=${filePath} err=${e}.`);
+    return undefined;
+  }
+}
+
+/**
+ * Deletes the undofiles which haven't been written for a while.
+ */
+export async function pruneUndoFiles(): Promise<void> {
+  const directory = vscode.Uri.file(getUndoDirectory());
+  let entries: Array<[string, vscode.FileType]>;
+  try {
+    entries = await vscode.workspace.fs.readDirectory(directory);
+  } catch {
+    // Nothing was ever saved
+    return;
+  }
+
+  const now = Date.now();
+  for (const [name, type] of entries) {
+    const uri = vscode.Uri.joinPath(directory, name);
+    try {
+      if (
+        type === vscode.FileType.File &&
+        now - (await vscode.workspace.fs.stat(uri)).mtime > MAX_UNDO_FILE_AGE_MILLIS
+      ) {
+        await vscode.workspace.fs.delete(uri);
+      }
+    } catch (err) {
+      Logger.warn(`Failed to delete old undo history. path=${uri.fsPath} err=${err}.`);
+    }
+  }
+}
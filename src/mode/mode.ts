@@ -13,6 +13,8 @@ export enum Mode {
   EasyMotionMode,
   EasyMotionInputMode,
   SurroundInputMode,
+  Structural,
+  StructuralVisual,
   OperatorPendingMode, // Pseudo-Mode, used only when remapping. DON'T SET TO THIS MODE
   Disabled,
 }
@@ -25,6 +27,7 @@ export enum VSCodeVimCursorType {
   TextDecoration,
   Native,
   UnderlineThin,
+  BlockOutline,
 }
 
 /**
@@ -34,6 +37,13 @@ export function isVisualMode(mode: Mode): mode is Mode.Visual | Mode.VisualLine
   return [Mode.Visual, Mode.VisualLine, Mode.VisualBlock].includes(mode);
 }
 
+/**
+ * Is the given mode one where structural editing commands act on the current AST node?
+ */
+export function isStructuralMode(mode: Mode): mode is Mode.Structural | Mode.StructuralVisual {
+  return [Mode.Structural, Mode.StructuralVisual].includes(mode);
+}
+
 /**
  * Is the given mode one where the cursor is on the status bar?
  * This means SearchInProgess and CommandlineInProgress modes.
@@ -56,6 +66,8 @@ export function getCursorStyle(cursorType: VSCodeVimCursorType) {
       return vscode.TextEditorCursorStyle.Underline;
     case VSCodeVimCursorType.UnderlineThin:
       return vscode.TextEditorCursorStyle.UnderlineThin;
+    case VSCodeVimCursorType.BlockOutline:
+      return vscode.TextEditorCursorStyle.BlockOutline;
     case VSCodeVimCursorType.TextDecoration:
       return vscode.TextEditorCursorStyle.LineThin;
     case VSCodeVimCursorType.Native:
@@ -12,7 +12,14 @@ import {
 } from './../actions/commands/insert';
 import { Jump } from '../jumps/jump';
 import { Logger } from '../util/logger';
-import { Mode, VSCodeVimCursorType, isVisualMode, getCursorStyle, isStatusBarMode } from './mode';
+import {
+  Mode,
+  VSCodeVimCursorType,
+  isVisualMode,
+  getCursorStyle,
+  isStatusBarMode,
+  isStructuralMode,
+} from './mode';
 import { PairMatcher } from './../common/matching/matcher';
 import { earlierOf, laterOf } from './../common/motion/position';
 import { Cursor } from '../common/motion/cursor';
@@ -46,7 +53,15 @@ import { Position, Uri } from 'vscode';
 import { RemapState } from '../state/remapState';
 import * as process from 'process';
 import { EasyMotion } from '../actions/plugins/easymotion/easymotion';
-import { highlightAstNodeUnderCursor as highlightCurrentAstNode } from '../clangd/structural-editing';
+import {
+  clearAstNodeHighlight,
+  getAstNodePath,
+  getAstPendingStatus,
+  getAstNodeSpan,
+  highlightAstNodeUnderCursor as highlightCurrentAstNode,
+  revealAstNodeInView,
+  showAstNodeSiblingHints,
+} from '../clangd/structural-editing';
 
 interface IModeHandlerMap {
   get(editorId: Uri): ModeHandler | undefined;
@@ -596,10 +611,27 @@ export class ModeHandler implements vscode.Disposable, IModeHandler {
     // Catch any text change not triggered by us (example: tab completion).
     this.vimState.historyTracker.addChange();
 
+    if (isStructuralMode(this.vimState.currentMode)) {
+      await this.waitForStructuralSelection();
+    }
+
     const recordedState = this.vimState.recordedState;
     recordedState.actionKeys.push(key);
 
-    const action = getRelevantAction(recordedState.actionKeys, this.vimState);
+    let action = getRelevantAction(recordedState.actionKeys, this.vimState);
+    if (
+      action === KeypressState.NoPossibleMatch &&
+      this.vimState.currentMode === Mode.StructuralVisual
+    ) {
+      // Keys which structural visual mode doesn't handle itself, such as operators, act on the selected span of
+      // nodes as they would on a Visual mode selection, whose end is inclusive.
+      const span = getAstNodeSpan(this.vimState);
+      if (span) {
+        this.vimState.cursors = [new Cursor(span.start, span.end.getLeftThroughLineBreaks())];
+      }
+      await this.vimState.setCurrentMode(Mode.Visual);
+      action = getRelevantAction(recordedState.actionKeys, this.vimState);
+    }
     switch (action) {
       case KeypressState.NoPossibleMatch:
         if (this.vimState.currentMode === Mode.Insert) {
@@ -617,6 +649,16 @@ export class ModeHandler implements vscode.Disposable, IModeHandler {
         return false;
     }
 
+    const pendingAstStatus = action.requiresAst
+      ? getAstPendingStatus(this.vimState.document)
+      : undefined;
+    if (pendingAstStatus) {
+      // Rather than act on an outdated AST, or find no node at all, tell the user to wait for it.
+      StatusBar.setText(this.vimState, `AST not ready yet: ${pendingAstStatus}`, true);
+      this.vimState.recordedState = new RecordedState();
+      return false;
+    }
+
     if (
       !this.remapState.remapUsedACharacter &&
       this.remapState.isCurrentlyPerformingRecursiveRemapping
@@ -696,19 +738,7 @@ export class ModeHandler implements vscode.Disposable, IModeHandler {
     // Update view
     await this.updateView();
 
-    // There is unfortunately no key release event to bind to, which means that there doesn't really seem to be an easy way to
-    // avoid sending clangd a lot of wasteful requests during repeat key presses. To try to mitigate this, we use promise
-    // caching to have it only handle one request at a time and only chain the most recent relevant request.
-
-    // TODO (Thomas): nullify currentAstNode and currentParent if the document is changed or ensure they are set according to wherever the
-    // cursor is?
-    if (this.vimState.currentClangdPromise) {
-      this.vimState.pendingClangdPromise = this.vimState.currentClangdPromise.then(() => {
-        this.vimState.currentClangdPromise = highlightCurrentAstNode(this.vimState);
-      });
-    } else {
-      this.vimState.currentClangdPromise = highlightCurrentAstNode(this.vimState);
-    }
+    await this.updateStructuralSelection();
 
     if (action.isJump) {
       globalState.jumpTracker.recordJump(
@@ -720,6 +750,51 @@ export class ModeHandler implements vscode.Disposable, IModeHandler {
     return true;
   }
 
+  /**
+   * Waits for the structural selection left by the previous keys to be resolved, as the next key acts on it.
+   */
+  private async waitForStructuralSelection(): Promise<void> {
+    // A selection which couldn't be shown must not stop the next keys from being handled.
+    await this.vimState.pendingClangdPromise?.catch(() => undefined);
+    await this.vimState.currentClangdPromise?.catch(() => undefined);
+  }
+
+  /**
+   * Highlights the current AST node and shows its path in the structural modes, or clears them otherwise.
+   */
+  public async updateStructuralSelection(): Promise<void> {
+    // There is unfortunately no key release event to bind to, which means that there doesn't really seem to be an easy way to
+    // avoid sending clangd a lot of wasteful requests during repeat key presses. To try to mitigate this, we use promise
+    // caching to have it only handle one request at a time and only chain the most recent relevant request.
+
+    // TODO (Thomas): nullify currentAstNode and currentParent if the document is changed or ensure they are set according to wherever the
+    // cursor is?
+    if (isStructuralMode(this.vimState.currentMode)) {
+      const showStructuralSelection = async () => {
+        try {
+          await highlightCurrentAstNode(this.vimState);
+          this.vimState.historyTracker.setAstNodePath(await getAstNodePath(this.vimState));
+          await showAstNodeSiblingHints(this.vimState);
+          await StatusBar.updateAstPath(this.vimState);
+          await revealAstNodeInView(this.vimState);
+        } catch (e) {
+          // Resolve all the same, as the next keys and requests wait on this promise.
+          Logger.error(`Failed to show the structural selection: ${e}`);
+        }
+      };
+      if (this.vimState.currentClangdPromise) {
+        this.vimState.pendingClangdPromise = this.vimState.currentClangdPromise.then(() => {
+          this.vimState.currentClangdPromise = showStructuralSelection();
+        });
+      } else {
+        this.vimState.currentClangdPromise = showStructuralSelection();
+      }
+    } else if (this.vimState.currentAstNode) {
+      clearAstNodeHighlight(this.vimState);
+      await StatusBar.updateAstPath(this.vimState);
+    }
+  }
+
   private async runAction(recordedState: RecordedState, action: IBaseAction): Promise<void> {
     this.selectionsChanged.ignoreIntermediateSelections = true;
 
@@ -1707,6 +1782,9 @@ function getCursorType(vimState: VimState, mode: Mode): VSCodeVimCursorType {
       return VSCodeVimCursorType.Block;
     case Mode.SurroundInputMode:
       return getCursorType(vimState, vimState.surround!.previousMode);
+    case Mode.Structural:
+    case Mode.StructuralVisual:
+      return VSCodeVimCursorType.BlockOutline;
     case Mode.OperatorPendingMode:
       return VSCodeVimCursorType.UnderlineThin;
     case Mode.Disabled:
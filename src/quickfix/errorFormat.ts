@@ -0,0 +1,126 @@
+import { ErrorCode, VimError } from '../error';
+
+/**
+ * What a line of output says, as far as the format it matched tells.
+ */
+export interface IErrorFormatMatch {
+  file?: string;
+  /** One-based, as compilers print them */
+  line?: number;
+  column?: number;
+  message?: string;
+  /** `E`, `W`, `I` or `N`, or undefined if the format has no `%t` */
+  type?: string;
+  nr?: number;
+}
+
+type ErrorFormatField = keyof IErrorFormatMatch;
+
+interface IFormat {
+  regex: RegExp;
+  fields: ErrorFormatField[];
+  /** `%-G` formats drop the lines they match */
+  ignore: boolean;
+}
+
+const conversions: { [code: string]: { regex: string; field?: ErrorFormatField } } = {
+  f: { regex: '(.+?)', field: 'file' },
+  l: { regex: '(\\d+)', field: 'line' },
+  c: { regex: '(\\d+)', field: 'column' },
+  m: { regex: '(.*)', field: 'message' },
+  t: { regex: '(.)', field: 'type' },
+  n: { regex: '(\\d+)', field: 'nr' },
+  '%': { regex: '%' },
+};
+
+/**
+ * Splits an option such as 'errorformat' into its formats, at the commas which aren't escaped with a backslash.
+ */
+function splitFormats(errorformat: string): string[] {
+  const formats: string[] = [];
+  let format = '';
+  for (let i = 0; i < errorformat.length; i++) {
+    if (errorformat[i] === '\\' && i + 1 < errorformat.length) {
+      format += errorformat[++i];
+    } else if (errorformat[i] === ',') {
+      formats.push(format);
+      format = '';
+    } else {
+      format += errorformat[i];
+    }
+  }
+  formats.push(format);
+  return formats.filter((f) => f.length > 0);
+}
+
+function compileFormat(format: string): IFormat {
+  let ignore = false;
+  if (format.startsWith('%-')) {
+    if (format[2] !== 'G') {
+      throw VimError.fromCode(ErrorCode.InvalidInFormatStringPrefix, `%-${format[2] ?? ''}`);
+    }
+    ignore = true;
+    format = format.slice(3);
+  }
+
+  let regex = '';
+  const fields: ErrorFormatField[] = [];
+  for (let i = 0; i < format.length; i++) {
+    if (format[i] !== '%') {
+      regex += format[i].replace(/[\-\[\]{}()*+?.\\\^$|]/, '\\$&');
+      continue;
+    }
+    const conversion = conversions[format[++i]];
+    if (conversion === undefined) {
+      throw VimError.fromCode(ErrorCode.InvalidInFormatString, `%${format[i] ?? ''}`);
+    }
+    regex += conversion.regex;
+    if (conversion.field) {
+      fields.push(conversion.field);
+    }
+  }
+  return { regex: new RegExp(`^${regex}$`), fields, ignore };
+}
+
+/**
+ * A subset of Vim's 'errorformat': a comma-separated list of formats, tried in order on each line of output, made of
+ * `%f` (file name), `%l` (line), `%c` (column), `%m` (message), `%t` (type, e.g. the `e` of `error`), `%n` (error
+ * number) and `%%`, with everything else taken literally. `%-G` in front of a format drops the lines it matches.
+ */
+export class ErrorFormat {
+  private readonly formats: IFormat[];
+
+  constructor(errorformat: string) {
+    this.formats = splitFormats(errorformat).map(compileFormat);
+  }
+
+  /**
+   * Returns what the first format which matches a line makes of it, undefined if none does and null if it is to be
+   * dropped.
+   */
+  public parseLine(line: string): IErrorFormatMatch | undefined | null {
+    for (const format of this.formats) {
+      const match = format.regex.exec(line);
+      if (match === null) {
+        continue;
+      }
+      if (format.ignore) {
+        return null;
+      }
+
+      const result: IErrorFormatMatch = {};
+      format.fields.forEach((field, i) => {
+        const value = match[i + 1];
+        if (field === 'file' || field === 'message') {
+          result[field] = value;
+        } else if (field === 'type') {
+          result.type = value.toUpperCase();
+        } else {
+          result[field] = Number.parseInt(value, 10);
+        }
+      });
+      return result;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,355 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { ErrorCode, VimError } from '../error';
+import { ErrorFormat } from './errorFormat';
+
+/**
+ * A position in a file, or just a line of text for output which doesn't match 'errorformat'.
+ */
+export interface IQuickfixEntry {
+  uri?: vscode.Uri;
+  /** Zero-based, like the positions of the documents they are in */
+  line?: number;
+  column?: number;
+  text: string;
+  type?: string;
+  nr?: number;
+}
+
+/**
+ * Whether an entry can be gone to. The others are only shown in the list.
+ */
+export function isValidEntry(entry: IQuickfixEntry): entry is IQuickfixEntry & { uri: vscode.Uri } {
+  return entry.uri !== undefined;
+}
+
+/**
+ * The directory programs such as `make` run in for a document: its workspace folder, or the folder it is in.
+ */
+export function getWorkingDirectory(document: vscode.TextDocument): string | undefined {
+  const folder =
+    vscode.workspace.getWorkspaceFolder(document.uri) ?? vscode.workspace.workspaceFolders?.[0];
+  if (folder !== undefined) {
+    return folder.uri.fsPath;
+  }
+  return document.uri.scheme === 'file' ? path.dirname(document.uri.fsPath) : undefined;
+}
+
+/**
+ * Makes entries of the output of a program such as `make` or `grep`, resolving relative file names against
+ * `directory`, which the program ran in.
+ */
+export function parseOutput(
+  output: string,
+  errorformat: string,
+  directory: string | undefined
+): IQuickfixEntry[] {
+  const format = new ErrorFormat(errorformat);
+  const entries: IQuickfixEntry[] = [];
+  for (const line of output.split(/\r?\n/)) {
+    const match = line.length > 0 ? format.parseLine(line) : null;
+    if (match === null) {
+      continue;
+    } else if (match === undefined || match.file === undefined) {
+      entries.push({ text: match?.message ?? line });
+    } else {
+      entries.push({
+        uri: vscode.Uri.file(path.resolve(directory ?? '', match.file)),
+        line: match.line !== undefined ? Math.max(match.line - 1, 0) : undefined,
+        column: match.column !== undefined ? Math.max(match.column - 1, 0) : undefined,
+        text: match.message ?? '',
+        type: match.type,
+        nr: match.nr,
+      });
+    }
+  }
+  return entries;
+}
+
+/**
+ * A list of positions, such as the errors of a build or the matches of a search, along with the one last gone to.
+ */
+export class QuickfixList {
+  public readonly title: string;
+  public readonly entries: IQuickfixEntry[];
+  /** Index of the current entry in `entries` */
+  public index: number;
+
+  constructor(title: string, entries: IQuickfixEntry[]) {
+    this.title = title;
+    this.entries = entries;
+    this.index = Math.max(entries.findIndex(isValidEntry), 0);
+  }
+
+  public get validEntryCount(): number {
+    return this.entries.filter(isValidEntry).length;
+  }
+
+  public get currentEntry(): IQuickfixEntry | undefined {
+    return this.entries[this.index];
+  }
+
+  /**
+   * Goes to the `nr`th entry, or the closest valid one to it.
+   */
+  public goTo(nr: number): IQuickfixEntry {
+    this.checkNotEmpty();
+    const index = Math.min(Math.max(nr - 1, 0), this.entries.length - 1);
+    const next = this.findValid(index, 1);
+    return this.select(next !== undefined ? next : this.findValid(index, -1)!);
+  }
+
+  public last(): IQuickfixEntry {
+    this.checkNotEmpty();
+    return this.select(this.findValid(this.entries.length - 1, -1)!);
+  }
+
+  /**
+   * Goes `count` valid entries forward, or backward for a negative count, stopping at either end of the list.
+   */
+  public move(count: number): IQuickfixEntry {
+    this.checkNotEmpty();
+    const direction = count > 0 ? 1 : -1;
+    let index = this.index;
+    for (let i = 0; i < Math.abs(count); i++) {
+      const next = this.findValid(index + direction, direction);
+      if (next === undefined) {
+        break;
+      }
+      index = next;
+    }
+    if (index === this.index) {
+      throw VimError.fromCode(ErrorCode.NoMoreItems);
+    }
+    return this.select(index);
+  }
+
+  /**
+   * Goes to the first entry of the `count`th next file, or to the last entry of the `count`th previous file for a
+   * negative count.
+   */
+  public moveFile(count: number): IQuickfixEntry {
+    this.checkNotEmpty();
+    const direction = count > 0 ? 1 : -1;
+    let index = this.index;
+    for (let i = 0; i < Math.abs(count); i++) {
+      const currentFile = this.entries[index].uri?.toString();
+      let next = this.findValid(index + direction, direction);
+      while (next !== undefined && this.entries[next].uri!.toString() === currentFile) {
+        next = this.findValid(next + direction, direction);
+      }
+      if (next === undefined) {
+        break;
+      }
+      index = next;
+    }
+    if (index === this.index) {
+      throw VimError.fromCode(ErrorCode.NoMoreItems);
+    }
+    if (direction > 0) {
+      return this.select(index);
+    }
+    // Go back to the start of the file
+    const file = this.entries[index].uri!.toString();
+    let previous = this.findValid(index - 1, -1);
+    while (previous !== undefined && this.entries[previous].uri!.toString() === file) {
+      index = previous;
+      previous = this.findValid(index - 1, -1);
+    }
+    return this.select(index);
+  }
+
+  /**
+   * Keeps the entries of a document where they were as it changes, like marks.
+   */
+  public adjust(uri: vscode.Uri, change: vscode.TextDocumentContentChangeEvent): boolean {
+    const { start, end } = change.range;
+    const lineDelta = change.text.split('\n').length - 1 - (end.line - start.line);
+    let adjusted = false;
+    for (const entry of this.entries) {
+      if (entry.line === undefined || entry.uri?.toString() !== uri.toString()) {
+        continue;
+      }
+      if (entry.line > end.line) {
+        entry.line += lineDelta;
+        adjusted ||= lineDelta !== 0;
+      } else if (entry.line > start.line) {
+        // The line is gone, so the entry goes where it was
+        entry.line = start.line;
+        adjusted = true;
+      }
+    }
+    return adjusted;
+  }
+
+  private findValid(index: number, direction: 1 | -1): number | undefined {
+    for (let i = index; i >= 0 && i < this.entries.length; i += direction) {
+      if (isValidEntry(this.entries[i])) {
+        return i;
+      }
+    }
+    return undefined;
+  }
+
+  private select(index: number): IQuickfixEntry {
+    this.index = index;
+    return this.entries[index];
+  }
+
+  private checkNotEmpty(): void {
+    if (this.validEntryCount === 0) {
+      throw VimError.fromCode(ErrorCode.NoErrors);
+    }
+  }
+}
+
+/**
+ * The lists made by the last few commands, so that `:colder` and `:cnewer` can go back to an earlier one.
+ */
+export class QuickfixStack {
+  private static readonly MAX_LISTS = 10;
+
+  private readonly lists: QuickfixList[] = [];
+  private current = -1;
+
+  public get currentList(): QuickfixList | undefined {
+    return this.lists[this.current];
+  }
+
+  public get currentListNumber(): number {
+    return this.current + 1;
+  }
+
+  public getLists(): readonly QuickfixList[] {
+    return this.lists;
+  }
+
+  /**
+   * Makes a new list the current one, after which the newer lists are lost, as in Vim.
+   */
+  public push(list: QuickfixList): void {
+    this.lists.splice(this.current + 1, this.lists.length, list);
+    if (this.lists.length > QuickfixStack.MAX_LISTS) {
+      this.lists.shift();
+    }
+    this.current = this.lists.length - 1;
+  }
+
+  /**
+   * Goes `count` lists back, or forward for a negative count.
+   */
+  public older(count: number): QuickfixList {
+    const current = this.current - count;
+    if (current < 0) {
+      throw VimError.fromCode(ErrorCode.AtBottomOfQuickfixStack);
+    } else if (current >= this.lists.length) {
+      throw VimError.fromCode(ErrorCode.AtTopOfQuickfixStack);
+    }
+    this.current = current;
+    return this.lists[current];
+  }
+
+  public select(listNumber: number): QuickfixList {
+    return this.older(this.currentListNumber - listNumber);
+  }
+}
+
+/**
+ * The quickfix list, which there is one of, and the location lists, which each document has one of.
+ */
+class QuickfixLists {
+  private quickfixStack = new QuickfixStack();
+  private readonly locationStacks = new Map<string, QuickfixStack>();
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+
+  /**
+   * The location list stack of `document`, which is created if needed, or the quickfix stack if there is no document.
+   */
+  public getStack(document: vscode.TextDocument | undefined): QuickfixStack {
+    if (document === undefined) {
+      return this.quickfixStack;
+    }
+    let stack = this.locationStacks.get(document.uri.toString());
+    if (stack === undefined) {
+      stack = new QuickfixStack();
+      this.locationStacks.set(document.uri.toString(), stack);
+    }
+    return stack;
+  }
+
+  /**
+   * Like `getStack`, but throws E776 rather than create a location list stack.
+   */
+  public getExistingStack(document: vscode.TextDocument | undefined): QuickfixStack {
+    if (document === undefined) {
+      return this.quickfixStack;
+    }
+    const stack = this.locationStacks.get(document.uri.toString());
+    if (stack === undefined) {
+      throw VimError.fromCode(ErrorCode.NoLocationList);
+    }
+    return stack;
+  }
+
+  public hasLocationList(document: vscode.TextDocument): boolean {
+    return this.locationStacks.get(document.uri.toString())?.currentList !== undefined;
+  }
+
+  /**
+   * Makes a new list of the entries, or adds them to the current list, in the location list stack of `document` or
+   * the quickfix stack.
+   */
+  public setList(
+    document: vscode.TextDocument | undefined,
+    title: string,
+    entries: IQuickfixEntry[],
+    add: boolean
+  ): QuickfixList {
+    const stack = this.getStack(document);
+    let list = stack.currentList;
+    if (add && list !== undefined) {
+      const wasEmpty = list.validEntryCount === 0;
+      list.entries.push(...entries);
+      if (wasEmpty) {
+        list.index = Math.max(list.entries.findIndex(isValidEntry), 0);
+      }
+    } else {
+      list = new QuickfixList(title, entries);
+      stack.push(list);
+    }
+    this.fireChange();
+    return list;
+  }
+
+  /**
+   * Forgets every list, as if none had been made.
+   */
+  public clear(): void {
+    this.quickfixStack = new QuickfixStack();
+    this.locationStacks.clear();
+    this.fireChange();
+  }
+
+  public fireChange(): void {
+    this.onDidChangeEmitter.fire();
+  }
+
+  public adjustEntries(event: vscode.TextDocumentChangeEvent): void {
+    const stacks = [this.quickfixStack, ...this.locationStacks.values()];
+    let adjusted = false;
+    for (const change of event.contentChanges) {
+      for (const stack of stacks) {
+        for (const list of stack.getLists()) {
+          adjusted = list.adjust(event.document.uri, change) || adjusted;
+        }
+      }
+    }
+    if (adjusted) {
+      this.fireChange();
+    }
+  }
+}
+
+export const quickfixLists = new QuickfixLists();
@@ -0,0 +1,143 @@
+import * as vscode from 'vscode';
+
+import { IQuickfixEntry, isValidEntry, QuickfixList, quickfixLists } from './quickfix';
+
+const icons: { [type: string]: string } = {
+  E: 'error',
+  W: 'warning',
+  I: 'info',
+  N: 'info',
+};
+
+/**
+ * Shows the entries of the current quickfix list, or of the location list of the active editor's document, in the
+ * panel. Picking an entry goes to it.
+ */
+class QuickfixView implements vscode.TreeDataProvider<IQuickfixEntry>, vscode.Disposable {
+  public readonly id: string;
+  /** Makes the view visible, see its "when" clause in package.json. */
+  public readonly visibleContextKey: string;
+  private readonly getList: () => QuickfixList | undefined;
+  private readonly treeView: vscode.TreeView<IQuickfixEntry>;
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<IQuickfixEntry | null>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+
+  constructor(id: string, visibleContextKey: string, getList: () => QuickfixList | undefined) {
+    this.id = id;
+    this.visibleContextKey = visibleContextKey;
+    this.getList = getList;
+    this.treeView = vscode.window.createTreeView(id, { treeDataProvider: this });
+  }
+
+  public getTreeItem(entry: IQuickfixEntry): vscode.TreeItem {
+    const list = this.getList();
+    const label =
+      entry === list?.currentEntry && isValidEntry(entry)
+        ? { label: entry.text, highlights: [[0, entry.text.length] as [number, number]] }
+        : entry.text;
+    const treeItem = new vscode.TreeItem(label);
+    if (isValidEntry(entry)) {
+      const position =
+        entry.line === undefined
+          ? ''
+          : entry.column === undefined
+          ? `:${entry.line + 1}`
+          : `:${entry.line + 1}:${entry.column + 1}`;
+      treeItem.description = `${vscode.workspace.asRelativePath(entry.uri)}${position}`;
+      treeItem.iconPath = new vscode.ThemeIcon(icons[entry.type ?? ''] ?? 'location');
+      treeItem.command = {
+        arguments: [{ list, index: list?.entries.indexOf(entry) }],
+        command: 'vim.quickfix.goToEntry',
+        title: 'Go to',
+      };
+    }
+    return treeItem;
+  }
+
+  public getParent(_entry: IQuickfixEntry): IQuickfixEntry | undefined {
+    return undefined;
+  }
+
+  public getChildren(entry?: IQuickfixEntry): IQuickfixEntry[] {
+    return entry === undefined ? this.getList()?.entries ?? [] : [];
+  }
+
+  public refresh(): void {
+    const list = this.getList();
+    this.treeView.description = list?.title;
+    this.onDidChangeTreeDataEmitter.fire(null);
+    const entry = list?.currentEntry;
+    if (this.treeView.visible && entry !== undefined) {
+      this.treeView.reveal(entry, { select: true, focus: false }).then(
+        () => {},
+        () => {}
+      );
+    }
+  }
+
+  dispose() {
+    this.treeView.dispose();
+    this.onDidChangeTreeDataEmitter.dispose();
+  }
+}
+
+let quickfixView: QuickfixView | undefined;
+let locationListView: QuickfixView | undefined;
+
+export function activate(context: vscode.ExtensionContext) {
+  quickfixView = new QuickfixView(
+    'vim.quickfixView',
+    'vim.quickfixVisible',
+    () => quickfixLists.getStack(undefined).currentList
+  );
+  locationListView = new QuickfixView('vim.locationListView', 'vim.locationListVisible', () => {
+    const document = vscode.window.activeTextEditor?.document;
+    return document && quickfixLists.hasLocationList(document)
+      ? quickfixLists.getStack(document).currentList
+      : undefined;
+  });
+  context.subscriptions.push(
+    quickfixView,
+    locationListView,
+    quickfixLists.onDidChange(() => {
+      quickfixView?.refresh();
+      locationListView?.refresh();
+    }),
+    vscode.workspace.onDidChangeTextDocument((event) => quickfixLists.adjustEntries(event)),
+    vscode.window.onDidChangeActiveTextEditor(() => locationListView?.refresh()),
+    vscode.commands.registerCommand(
+      'vim.quickfix.goToEntry',
+      async (args: { list: QuickfixList; index: number }) => {
+        const entry = args.list.goTo(args.index + 1);
+        quickfixLists.fireChange();
+        if (isValidEntry(entry)) {
+          const position = new vscode.Position(entry.line ?? 0, entry.column ?? 0);
+          await vscode.window.showTextDocument(entry.uri, {
+            selection: new vscode.Range(position, position),
+          });
+        }
+      }
+    ),
+    vscode.commands.registerCommand('vim.quickfix.close', () => closeQuickfixView(false)),
+    vscode.commands.registerCommand('vim.locationList.close', () => closeQuickfixView(true))
+  );
+}
+
+/**
+ * Shows the quickfix list, or the location list of the active editor's document, in the panel.
+ */
+export async function openQuickfixView(location: boolean): Promise<void> {
+  const view = location ? locationListView : quickfixView;
+  if (view) {
+    await vscode.commands.executeCommand('setContext', view.visibleContextKey, true);
+    await vscode.commands.executeCommand(`${view.id}.focus`);
+    view.refresh();
+  }
+}
+
+export async function closeQuickfixView(location: boolean): Promise<void> {
+  const view = location ? locationListView : quickfixView;
+  if (view) {
+    await vscode.commands.executeCommand('setContext', view.visibleContextKey, false);
+  }
+}
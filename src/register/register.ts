@@ -24,9 +24,20 @@ export enum RegisterMode {
 
 export type RegisterContent = string | RecordedState;
 
+/**
+ * Describes register content which holds a whole AST node, as yanked or deleted in Structural mode.
+ */
+export interface INodeRegisterContent {
+  /** Kind of the AST node, e.g. `Call` or `If`. */
+  kind: string;
+  /** Indentation of the line the node started on, which its other lines are relative to. */
+  indentation: string;
+}
+
 export interface IRegisterContent {
   text: RegisterContent;
   registerMode: RegisterMode;
+  node?: INodeRegisterContent;
 }
 
 export class Register {
@@ -78,6 +89,26 @@ export class Register {
     }
   }
 
+  /**
+   * Puts the text of an AST node in the currently selected register (and the unnamed register),
+   * tagged so that Structural mode can put it back as a node.
+   *
+   * Appending to a register which already holds something leaves it untagged, since the result
+   * is no longer a single node.
+   */
+  public static putNode(vimState: VimState, content: string, node: INodeRegisterContent): void {
+    const register = vimState.recordedState.registerName;
+    const isAppend =
+      Register.isValidUppercaseRegister(register) && Register.has(register.toLowerCase());
+
+    Register.put(vimState, content, 0, true);
+
+    const contentByCursor = Register.registers.get(register.toLowerCase());
+    if (!isAppend && contentByCursor?.[0]?.text === content) {
+      contentByCursor[0].node = node;
+    }
+  }
+
   public static isValidRegister(register: string): boolean {
     return (
       Register.isValidLowercaseRegister(register) ||
@@ -327,12 +327,28 @@ export class VimState implements vscode.Disposable {
       const ime = await import('../actions/plugins/imswitcher');
       this.inputMethodSwitcher = new ime.InputMethodSwitcher();
     }
+
+    if (configuration.undofile) {
+      await this.historyTracker.loadUndoFile();
+    }
   }
 
   public currentClangdPromise: Promise<void> | null = null;
   public pendingClangdPromise: Promise<void> | null = null;
   public currentParent: ASTNode | null = null;
   public currentAstNode: ASTNode | null = null;
+  /**
+   * In structural visual mode, the sibling of the current AST node at which the selection started.
+   */
+  public astNodeSpanAnchor: ASTNode | null = null;
+  /**
+   * Where the current AST node will be once a pending structural edit is applied, so that it can be selected again.
+   */
+  public pendingAstNodeRange: vscode.Range | null = null;
+  /**
+   * The path to the AST node to select once an undo or redo is applied, as recorded in the history step.
+   */
+  public pendingAstNodePath: number[] | null = null;
 
   dispose() {
     this.nvim?.dispose();
@@ -1,9 +1,50 @@
 import * as vscode from 'vscode';
-import { Mode } from './mode/mode';
+import { Mode, isStructuralMode } from './mode/mode';
 import { configuration } from './configuration/configuration';
 import { VimState } from './state/vimState';
 import { VimError } from './error';
 import { Logger } from './util/logger';
+import { ASTNode } from './clangd/ast';
+import { areEqual, getAstNodeAncestors } from './clangd/structural-editing';
+
+// How many nodes of the path to the current AST node are shown, counting back from it
+const maxAstPathLength = 6;
+// Longer details, such as string literals, are cut short
+const maxAstNodeDetailLength = 20;
+
+function describeAstNode(node: ASTNode): string {
+  const detail =
+    node.detail && node.detail.length > maxAstNodeDetailLength
+      ? node.detail.slice(0, maxAstNodeDetailLength - 1) + '…'
+      : node.detail;
+  return detail ? `${node.kind} ${detail}` : node.kind;
+}
+
+/**
+ * Describes the path to the last node of `path`, followed by its position among `siblings`, or that of the span from
+ * `anchor` to it.
+ */
+export function formatAstPath(
+  path: ASTNode[],
+  siblings: ASTNode[],
+  anchor: ASTNode | null
+): string {
+  const node = path[path.length - 1];
+  const shownPath = path.slice(-maxAstPathLength).map(describeAstNode);
+  if (path.length > maxAstPathLength) {
+    shownPath.unshift('…');
+  }
+  let text = shownPath.join(' › ');
+
+  const index = siblings.findIndex((sibling) => areEqual(sibling, node));
+  if (index !== -1) {
+    const anchorIndex = anchor ? siblings.findIndex((sibling) => areEqual(sibling, anchor)) : -1;
+    const [first, last] = [index, anchorIndex === -1 ? index : anchorIndex].sort((a, b) => a - b);
+    const position = first === last ? `${first + 1}` : `${first + 1}-${last + 1}`;
+    text += ` (${position}/${siblings.length})`;
+  }
+  return text;
+}
 
 class StatusBarImpl implements vscode.Disposable {
   // Displays the current state (mode, recording macro, etc.) and messages to the user
@@ -12,6 +53,14 @@ class StatusBarImpl implements vscode.Disposable {
   // Displays the keys you've typed so far when they haven't yet resolved to a command
   private readonly recordedStateStatusBarItem: vscode.StatusBarItem;
 
+  // Displays the path to the current AST node in the structural modes
+  private readonly astPathStatusBarItem: vscode.StatusBarItem;
+
+  // Displays what clangd is doing with the active file and how far its background indexing has got
+  private readonly clangdStatusBarItem: vscode.StatusBarItem;
+  private clangdFileState: string | undefined;
+  private clangdProgress: string | undefined;
+
   private previousMode: Mode | undefined = undefined;
   private showingDefaultMessage = true;
 
@@ -33,11 +82,82 @@ class StatusBarImpl implements vscode.Disposable {
     );
     this.recordedStateStatusBarItem.name = 'Vim Pending Command Keys';
     this.recordedStateStatusBarItem.show();
+
+    this.astPathStatusBarItem = vscode.window.createStatusBarItem(
+      'astPath',
+      vscode.StatusBarAlignment.Left,
+      Number.MIN_SAFE_INTEGER // Right of the command line
+    );
+    this.astPathStatusBarItem.name = 'Vim Structural Path';
+
+    this.clangdStatusBarItem = vscode.window.createStatusBarItem(
+      'clangdStatus',
+      vscode.StatusBarAlignment.Left,
+      Number.MIN_SAFE_INTEGER + 1 // Left of the command line
+    );
+    this.clangdStatusBarItem.name = 'clangd Status';
+    this.clangdStatusBarItem.command = 'clangd.openOutputPanel';
   }
 
   dispose() {
     this.statusBarItem.dispose();
     this.recordedStateStatusBarItem.dispose();
+    this.astPathStatusBarItem.dispose();
+    this.clangdStatusBarItem.dispose();
+  }
+
+  /**
+   * Shows clangd's state for the active file, e.g. `building preamble` or `idle`, or nothing if it has none.
+   */
+  public setClangdFileState(state: string | undefined) {
+    this.clangdFileState = state;
+    this.updateClangdStatus();
+  }
+
+  /**
+   * Shows the progress clangd reports for its background work, e.g. `indexing 42%`, until it is `undefined` again.
+   */
+  public setClangdProgress(progress: string | undefined) {
+    this.clangdProgress = progress;
+    this.updateClangdStatus();
+  }
+
+  private updateClangdStatus() {
+    const parts = [this.clangdFileState, this.clangdProgress].filter((part) => part !== undefined);
+    if (parts.length === 0) {
+      this.clangdStatusBarItem.hide();
+      return;
+    }
+    this.clangdStatusBarItem.text = `clangd: ${parts.join(' · ')}`;
+    this.clangdStatusBarItem.show();
+  }
+
+  /**
+   * Shows the ancestors of the current AST node and its position among its siblings, e.g.
+   * `Function main › Compound › For › BinaryOperator < (3/7)`, while in a structural mode.
+   */
+  public async updateAstPath(vimState: VimState) {
+    const node = vimState.currentAstNode;
+    if (!isStructuralMode(vimState.currentMode) || !node) {
+      this.astPathStatusBarItem.hide();
+      return;
+    }
+
+    const path = [...(await getAstNodeAncestors(node, vimState.document)), node];
+    if (vimState.currentAstNode !== node) {
+      // The structural cursor moved on while we were looking up the ancestors.
+      return;
+    }
+
+    this.astPathStatusBarItem.text = formatAstPath(
+      path,
+      vimState.currentParent?.children ?? [],
+      vimState.astNodeSpanAnchor
+    );
+    this.astPathStatusBarItem.tooltip = path
+      .map((pathNode) => `${pathNode.role}: ${describeAstNode(pathNode)}`)
+      .join('\n');
+    this.astPathStatusBarItem.show();
   }
 
   public updateShowCmd(vimState: VimState) {
@@ -187,6 +307,10 @@ export function statusBarText(vimState: VimState) {
       return '-- EASYMOTION INPUT --';
     case Mode.SurroundInputMode:
       return '-- SURROUND INPUT --';
+    case Mode.Structural:
+      return '-- STRUCTURAL --';
+    case Mode.StructuralVisual:
+      return '-- STRUCTURAL VISUAL --';
     case Mode.Disabled:
       return '-- VIM: DISABLED --';
     case Mode.SearchInProgressMode:
@@ -253,6 +377,8 @@ export function statusBarCommandText(vimState: VimState): string {
     case Mode.Replace:
       return vimState.recordedState.pendingCommandString;
     case Mode.Normal:
+    case Mode.Structural:
+    case Mode.StructuralVisual:
     case Mode.Disabled:
       return vimState.recordedState.commandString;
     default:
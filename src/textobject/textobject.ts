@@ -18,8 +18,11 @@ import {
 import { ChangeOperator } from '../actions/operator';
 import { configuration } from '../configuration/configuration';
 import { getCurrentParagraphBeginning, getCurrentParagraphEnd } from './paragraph';
-import { Position, TextDocument } from 'vscode';
+import { Position, Range, TextDocument } from 'vscode';
 import { WordType } from './word';
+import { ASTNode } from '../clangd/ast';
+import { astConverter, getAstProvider } from '../ast/astProvider';
+import { getAstNodeForRange, isStructuralEditingAvailable } from '../clangd/structural-editing';
 
 export abstract class TextObject extends BaseMovement {
   override modes = [Mode.Normal, Mode.Visual, Mode.VisualBlock];
@@ -750,6 +753,27 @@ abstract class SelectArgument extends TextObject {
   // a separator character (optionally including extra whitespace).
   protected selectAround = false;
 
+  // In documents with an AST provider, the argument is taken from the AST rather than
+  // guessed from delimiters, so that a count selects the argument of an enclosing call.
+  public override async execActionWithCount(
+    position: Position,
+    vimState: VimState,
+    count: number
+  ): Promise<Position | IMovement> {
+    if (isStructuralEditingAvailable(vimState.document)) {
+      let node = await getAstNodeUnderCursor(position, vimState);
+      for (let i = 0; node && i < Math.max(count, 1); i++) {
+        const from = i === 0 ? node : await getEnclosingAstNode(vimState.document, node);
+        node = from && (await getClosestAstArgument(vimState.document, from));
+      }
+      if (node?.range) {
+        return getAstNodeMovement(node, this.selectAround, vimState);
+      }
+    }
+
+    return super.execActionWithCount(position, vimState, count);
+  }
+
   // Requirement is that below example still works as expected, i.e.
   // when we have nested pairs of parens
   //
@@ -995,3 +1019,230 @@ export class SelectAroundArgument extends SelectArgument {
   keys = ['a', 'a'];
   override selectAround = true;
 }
+
+/**
+ * Returns the node of the document's cached AST under the cursor, or covering the selection in
+ * Visual mode, preferring the outermost of the nodes which span the same text.
+ */
+async function getAstNodeUnderCursor(
+  position: Position,
+  vimState: VimState
+): Promise<ASTNode | null> {
+  const document = vimState.document;
+  const range =
+    vimState.currentMode === Mode.Visual
+      ? new Range(vimState.cursorStartPosition, vimState.cursorStopPosition)
+      : new Range(position, position);
+  const found = await getAstNodeForRange(document, range.with({ end: range.end.getRight() }));
+  if (!found) {
+    return null;
+  }
+
+  let node = (await getAstProvider(document)?.find(document, found)) ?? found;
+  for (
+    let parent = await getAstParent(document, node);
+    parent && haveSameRange(parent, node);
+    parent = await getAstParent(document, parent)
+  ) {
+    node = parent;
+  }
+  return node;
+}
+
+/**
+ * Returns the closest ancestor of `node` which spans more text than it does.
+ */
+async function getEnclosingAstNode(document: TextDocument, node: ASTNode): Promise<ASTNode | null> {
+  let parent = await getAstParent(document, node);
+  while (parent && haveSameRange(parent, node)) {
+    parent = await getAstParent(document, parent);
+  }
+  return parent;
+}
+
+/**
+ * Returns `node` or its closest ancestor which is an argument of a call or construction, an
+ * element of an initializer list or a parameter of a function.
+ */
+async function getClosestAstArgument(
+  document: TextDocument,
+  node: ASTNode
+): Promise<ASTNode | null> {
+  let child = node;
+  for (
+    let parent = await getAstParent(document, child);
+    parent;
+    parent = await getAstParent(document, child)
+  ) {
+    if (isAstArgument(child, parent)) {
+      return child;
+    }
+    child = parent;
+  }
+  return null;
+}
+
+/**
+ * The kinds of nodes whose children are arguments, from clangd and then from the tree-sitter grammars.
+ */
+const astArgumentListKinds = [
+  'Call',
+  'CXXMemberCall',
+  'CXXConstruct',
+  'CXXTemporaryObject',
+  'InitList',
+  'argument_list',
+  'arguments',
+  'parameter_list',
+  'parameters',
+  'formal_parameters',
+  'initializer_list',
+];
+
+/**
+ * The kinds of the nodes the tree-sitter grammars put the arguments of a call in.
+ */
+const callArgumentListKinds = ['argument_list', 'arguments'];
+
+function isAstArgument(node: ASTNode, parent: ASTNode): boolean {
+  if (node.kind === 'ParmVar') {
+    return true;
+  }
+  // Implicit constructions and conversions span the same text as their only argument.
+  if (!astArgumentListKinds.includes(parent.kind) || haveSameRange(parent, node)) {
+    return false;
+  }
+  // The callee of a call is not one of its arguments, nor is the list tree-sitter puts them in.
+  const isCall = parent.kind === 'Call' || parent.kind === 'CXXMemberCall';
+  return (
+    !isCall || (parent.children?.indexOf(node) !== 0 && !callArgumentListKinds.includes(node.kind))
+  );
+}
+
+async function getAstParent(document: TextDocument, node: ASTNode): Promise<ASTNode | null> {
+  const parent = await getAstProvider(document)?.getParent(document, node);
+  return parent?.range && parent.kind !== 'TranslationUnit' ? parent : null;
+}
+
+function haveSameRange(a: ASTNode, b: ASTNode): boolean {
+  return (
+    a.range?.start.line === b.range?.start.line &&
+    a.range?.start.character === b.range?.start.character &&
+    a.range?.end.line === b.range?.end.line &&
+    a.range?.end.character === b.range?.end.character
+  );
+}
+
+/**
+ * Selects the text of `node`, and around it the `;` or `,` which follows it along with the
+ * whitespace after a comma or, for the last item of a list, the comma before it.
+ */
+function getAstNodeMovement(node: ASTNode, selectAround: boolean, vimState: VimState): IMovement {
+  const document = vimState.document;
+  const range = astConverter.asRange(node.range!);
+  let start = range.start;
+  let stop = range.end;
+
+  if (selectAround) {
+    const endLine = document.lineAt(stop).text;
+    const startLine = document.lineAt(start).text;
+    const trailing = endLine.charAt(stop.character);
+    if (trailing === ';') {
+      stop = stop.getRight();
+    } else if (trailing === ',') {
+      const separatorLength = /^,\s*/.exec(endLine.slice(stop.character))![0].length;
+      stop = stop.translate(0, separatorLength);
+    } else {
+      const leading = /,\s*$/.exec(startLine.slice(0, start.character));
+      if (leading) {
+        start = start.translate(0, -leading[0].length);
+      }
+    }
+  }
+
+  if (!vimState.recordedState.operator) {
+    // Outside of an operator, the selection includes the character under the cursor.
+    stop = stop.getLeftThroughLineBreaks();
+  }
+  return {
+    start,
+    stop,
+  };
+}
+
+/**
+ * Text objects resolved through the document's AST, so that operators act on its constructs. A count
+ * climbs that many ancestors from the node under the cursor, skipping those which span the same
+ * text.
+ */
+abstract class SelectAstNode extends TextObject {
+  override modes = [Mode.Normal, Mode.Visual];
+  override requiresAst = true;
+
+  // Whether to include the `;` or `,` separating the node from what follows it.
+  protected selectAround = false;
+  // How many ancestors to climb before applying the count.
+  protected ancestorsToSkip = 0;
+
+  public override async execActionWithCount(
+    position: Position,
+    vimState: VimState,
+    count: number
+  ): Promise<IMovement> {
+    if (!isStructuralEditingAvailable(vimState.document)) {
+      return failedMovement(vimState);
+    }
+
+    let node = await getAstNodeUnderCursor(position, vimState);
+    const ancestors = Math.max(count, 1) - 1 + this.ancestorsToSkip;
+    for (let i = 0; node && i < ancestors; i++) {
+      node = await getEnclosingAstNode(vimState.document, node);
+    }
+    if (!node?.range) {
+      return failedMovement(vimState);
+    }
+
+    let movement = getAstNodeMovement(node, this.selectAround, vimState);
+    // Repeating the text object on its own selection selects the enclosing node, as `af` does.
+    const selection = new Range(vimState.cursorStartPosition, vimState.cursorStopPosition);
+    if (
+      vimState.currentMode === Mode.Visual &&
+      selection.isEqual(new Range(movement.start, movement.stop))
+    ) {
+      node = await getEnclosingAstNode(vimState.document, node);
+      if (!node?.range) {
+        return failedMovement(vimState);
+      }
+      movement = getAstNodeMovement(node, this.selectAround, vimState);
+    }
+    return movement;
+  }
+
+  public async execAction(position: Position, vimState: VimState): Promise<IMovement> {
+    return this.execActionWithCount(position, vimState, 1);
+  }
+}
+
+@RegisterAction
+export class SelectInnerAstNode extends SelectAstNode {
+  keys = ['i', 'n'];
+}
+
+@RegisterAction
+export class SelectAroundAstNode extends SelectAstNode {
+  keys = ['a', 'n'];
+  override selectAround = true;
+}
+
+@RegisterAction
+export class SelectInnerParentAstNode extends SelectAstNode {
+  keys = ['i', 'N'];
+  override ancestorsToSkip = 1;
+}
+
+@RegisterAction
+export class SelectAroundParentAstNode extends SelectAstNode {
+  keys = ['a', 'N'];
+  override selectAround = true;
+  override ancestorsToSkip = 1;
+}
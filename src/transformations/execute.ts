@@ -8,6 +8,8 @@ import {
   InsertTextVSCodeTransformation,
   areAllSameTransformation,
   overlappingTransformations,
+  ExCommandOnLines,
+  NormalKeys,
 } from './transformations';
 import { ExCommandLine } from '../cmd_line/commandLine';
 import { PositionDiff } from '../common/motion/position';
@@ -21,9 +23,14 @@ import { Transformer } from './transformer';
 import { Globals } from '../globals';
 import { keystrokesExpressionParser } from '../vimscript/expression';
 import { globalState } from '../state/globalState';
+import { RemapState } from '../state/remapState';
+import { ForceStopRemappingError } from '../error';
+import { ExCommand } from '../vimscript/exCommand';
+import { LineRange } from '../vimscript/lineRange';
 
 export interface IModeHandler {
   vimState: VimState;
+  remapState: RemapState;
 
   updateView(args?: { drawSelection: boolean; revealRange: boolean }): Promise<void>;
   runMacro(recordedMacro: RecordedState): Promise<void>;
@@ -31,6 +38,137 @@ export interface IModeHandler {
   rerunRecordedState(recordedState: RecordedState): Promise<void>;
 }
 
+/**
+ * Where each of `lines` is after `change`, given the length each of them had before it. Lines which the change
+ * deleted, along with one of their line breaks, are left out.
+ */
+function shiftLines(
+  lines: number[],
+  lineLengths: Map<number, number>,
+  change: vscode.TextDocumentContentChangeEvent
+): number[] {
+  const { start, end } = change.range;
+  const lineDelta = change.text.split('\n').length - 1 - (end.line - start.line);
+  return lines.flatMap((line) => {
+    if (line < start.line) {
+      return [line];
+    } else if (line > end.line) {
+      return [line + lineDelta];
+    }
+    const deleted =
+      start.line !== end.line &&
+      start.isBeforeOrEqual(new vscode.Position(line, 0)) &&
+      end.isAfterOrEqual(new vscode.Position(line, lineLengths.get(line) ?? 0));
+    if (deleted) {
+      return [];
+    }
+    // Whatever is left of a line the change ends in follows the inserted text
+    return [line === start.line ? line : end.line + lineDelta];
+  });
+}
+
+/**
+ * Runs an ex command at the cursor and applies its changes straight away, for the commands such as `:global` and
+ * `:cdo` which run one at several places.
+ */
+export async function executeExCommand(
+  modeHandler: IModeHandler,
+  command: ExCommand,
+  lineRange: LineRange | undefined
+): Promise<void> {
+  const vimState = modeHandler.vimState;
+  const recordedState = vimState.recordedState;
+  try {
+    vimState.recordedState = new RecordedState();
+    if (lineRange) {
+      await command.executeWithRange(vimState, lineRange);
+    } else {
+      await command.execute(vimState);
+    }
+
+    // Commands only have the one cursor, which their changes are made at.
+    for (const t of vimState.recordedState.transformer.transformations) {
+      if (isTextTransformation(t) && t.cursorIndex === undefined) {
+        t.cursorIndex = 0;
+      }
+    }
+    await executeTransformations(modeHandler, vimState.recordedState.transformer.transformations);
+  } finally {
+    vimState.recordedState = recordedState;
+  }
+}
+
+/**
+ * Runs an ex command on each line in turn, applying its changes before moving on to the next line so that it
+ * sees the document as the previous lines left it.
+ */
+async function executeExCommandOnLines(
+  modeHandler: IModeHandler,
+  transformation: ExCommandOnLines
+): Promise<void> {
+  const vimState = modeHandler.vimState;
+  const { command, lineRange } = transformation;
+
+  let lines = transformation.lines;
+  let lineLengths = new Map<number, number>();
+  const measureLines = () => {
+    lineLengths = new Map(
+      lines.map((line) => [line, vimState.document.lineAt(line).text.length] as const)
+    );
+  };
+  measureLines();
+  const listener = vscode.workspace.onDidChangeTextDocument((e) => {
+    if (e.document === vimState.document) {
+      for (const change of e.contentChanges) {
+        lines = shiftLines(lines, lineLengths, change);
+      }
+      measureLines();
+    }
+  });
+
+  try {
+    while (lines.length > 0) {
+      const position = new vscode.Position(lines[0], 0);
+      lines = lines.slice(1);
+      vimState.cursors = [new Cursor(position, position)];
+
+      await executeExCommand(modeHandler, command, lineRange);
+    }
+    // Leave the cursor wherever the last command put it, rather than where the editor's selection still is.
+    await modeHandler.updateView();
+  } finally {
+    listener.dispose();
+  }
+}
+
+/**
+ * Types keys in Normal mode for `:normal`, as part of the undo step of the command which runs it.
+ */
+async function executeNormalKeys(modeHandler: IModeHandler, transformation: NormalKeys) {
+  const { vimState, remapState } = modeHandler;
+  const wasReplayingMacro = vimState.isReplayingMacro;
+  const wasPerformingNonRecursiveRemapping = remapState.isCurrentlyPerformingNonRecursiveRemapping;
+  vimState.isReplayingMacro = true;
+  remapState.isCurrentlyPerformingNonRecursiveRemapping ||= transformation.noRemap;
+  try {
+    vimState.recordedState = new RecordedState();
+    await modeHandler.handleMultipleKeyEvents(transformation.keys);
+    // Like an incomplete command, Insert mode or the command line are abandoned once the keys run out
+    if (vimState.currentMode !== Mode.Normal) {
+      await modeHandler.handleMultipleKeyEvents(['<Esc>']);
+    }
+  } catch (e) {
+    // An error or a failed movement skips the rest of the keys, as it would for a remapping
+    if (!(e instanceof ForceStopRemappingError)) {
+      throw e;
+    }
+  } finally {
+    vimState.recordedState = new RecordedState();
+    vimState.isReplayingMacro = wasReplayingMacro;
+    remapState.isCurrentlyPerformingNonRecursiveRemapping = wasPerformingNonRecursiveRemapping;
+  }
+}
+
 export async function executeTransformations(
   modeHandler: IModeHandler,
   transformations: Transformation[]
@@ -235,6 +373,14 @@ export async function executeTransformations(
         await vscode.commands.executeCommand(transformation.command, ...transformation.args);
         break;
 
+      case 'exCommandOnLines':
+        await executeExCommandOnLines(modeHandler, transformation);
+        break;
+
+      case 'normalKeys':
+        await executeNormalKeys(modeHandler, transformation);
+        break;
+
       default:
         Logger.warn(`Unhandled text transformation type: ${transformation.type}.`);
         break;
@@ -1,5 +1,7 @@
 import { Position, Range, TextDocumentContentChangeEvent } from 'vscode';
 import { RecordedState } from '../state/recordedState';
+import { ExCommand } from '../vimscript/exCommand';
+import { LineRange } from '../vimscript/lineRange';
 import { PositionDiff } from './../common/motion/position';
 
 /**
@@ -185,6 +187,31 @@ export interface ContentChangeTransformation {
   diff: PositionDiff;
 }
 
+/**
+ * Runs an ex command on each of several lines in turn, for `:global` and `:[range]normal`
+ */
+export interface ExCommandOnLines {
+  type: 'exCommandOnLines';
+  command: ExCommand;
+  lineRange: LineRange | undefined;
+  /**
+   * The lines to run the command on, as they were before it first ran
+   */
+  lines: number[];
+}
+
+/**
+ * Feeds keys to the mode handler as if they were typed in Normal mode, for `:normal`
+ */
+export interface NormalKeys {
+  type: 'normalKeys';
+  keys: string[];
+  /**
+   * Don't remap the keys, as with `:normal!`
+   */
+  noRemap: boolean;
+}
+
 export type Transformation =
   | InsertTextTransformation
   | InsertTextVSCodeTransformation
@@ -194,7 +221,9 @@ export type Transformation =
   | Dot
   | Macro
   | ContentChangeTransformation
-  | VSCodeCommandTransformation;
+  | VSCodeCommandTransformation
+  | ExCommandOnLines
+  | NormalKeys;
 
 /**
  * Text Transformations
@@ -39,11 +39,13 @@ class ExternalCommand {
    * Executes `command` and returns the output.
    * @param command the command to run
    * @param stdin string to pipe into stdin
+   * @param cwd the directory to run it in
    */
-  private async execute(command: string, stdin: string): Promise<string> {
+  private async execute(command: string, stdin: string, cwd?: string): Promise<string> {
     const output: string[] = [];
     const options = {
       shell: configuration.shell || undefined,
+      cwd,
     };
 
     try {
@@ -85,10 +87,23 @@ class ExternalCommand {
   public async run(command: string, stdin: string = ''): Promise<string> {
     command = this.expandCommand(command);
     this.previousExternalCommand = command;
+    return this.runWithoutHistory(command, stdin);
+  }
+
+  /**
+   * Runs the given command like `run`, but without expanding '!' or making
+   * it the previous external command, as for the programs `:make` and
+   * `:grep` run.
+   *
+   * @param command the command to run
+   * @param stdin string to pipe into stdin
+   * @param cwd the directory to run it in, by default that of the extension host
+   */
+  public async runWithoutHistory(command: string, stdin: string, cwd?: string): Promise<string> {
     // combines stdout and stderr (compatible for all platforms)
     command += ' 2>&1';
 
-    let output = await this.execute(command, stdin);
+    let output = await this.execute(command, stdin, cwd);
     // vim behavior, trim newlines
     if (output.endsWith('\r\n')) {
       output = output.slice(0, -2);
@@ -4,23 +4,30 @@ import { AsciiCommand } from '../cmd_line/commands/ascii';
 import { BangCommand } from '../cmd_line/commands/bang';
 import { Breakpoints } from '../cmd_line/commands/breakpoints';
 import { BufferDeleteCommand } from '../cmd_line/commands/bufferDelete';
+import { CdoCommand } from '../cmd_line/commands/cdo';
+import { CexprCommand, CfileCommand } from '../cmd_line/commands/cfile';
 import { CloseCommand } from '../cmd_line/commands/close';
 import { CopyCommand } from '../cmd_line/commands/copy';
 import { MoveCommand } from '../cmd_line/commands/move';
 import { DeleteCommand } from '../cmd_line/commands/delete';
 import { DigraphsCommand } from '../cmd_line/commands/digraph';
+import { EarlierLaterCommand } from '../cmd_line/commands/earlierLater';
 import { FileCommand } from '../cmd_line/commands/file';
 import { FileInfoCommand } from '../cmd_line/commands/fileInfo';
+import { GlobalCommand } from '../cmd_line/commands/global';
 import { GotoCommand } from '../cmd_line/commands/goto';
 import { GotoLineCommand } from '../cmd_line/commands/gotoLine';
 import { HistoryCommand } from '../cmd_line/commands/history';
 import { ClearJumpsCommand, JumpsCommand } from '../cmd_line/commands/jumps';
 import { CenterCommand, LeftCommand, RightCommand } from '../cmd_line/commands/leftRightCenter';
+import { MakeCommand } from '../cmd_line/commands/make';
 import { DeleteMarksCommand, MarksCommand } from '../cmd_line/commands/marks';
 import { NohlCommand } from '../cmd_line/commands/nohl';
+import { NormalCommand } from '../cmd_line/commands/normal';
 import { OnlyCommand } from '../cmd_line/commands/only';
 import { PrintCommand } from '../cmd_line/commands/print';
 import { PutExCommand } from '../cmd_line/commands/put';
+import { QuickfixCommand, QuickfixCommandType } from '../cmd_line/commands/quickfix';
 import { QuitCommand } from '../cmd_line/commands/quit';
 import { ReadCommand } from '../cmd_line/commands/read';
 import { RegisterCommand } from '../cmd_line/commands/register';
@@ -34,6 +41,8 @@ import { SubstituteCommand } from '../cmd_line/commands/substitute';
 import { TabCommand } from '../cmd_line/commands/tab';
 import { TerminalCommand } from '../cmd_line/commands/terminal';
 import { UndoCommand } from '../cmd_line/commands/undo';
+import { UndoListCommand } from '../cmd_line/commands/undoList';
+import { VimgrepCommand } from '../cmd_line/commands/vimgrep';
 import { VsCodeCommand } from '../cmd_line/commands/vscode';
 import { WallCommand } from '../cmd_line/commands/wall';
 import { WriteCommand } from '../cmd_line/commands/write';
@@ -114,14 +123,14 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['bun', 'load'], undefined],
   [['bw', 'ipeout'], undefined],
   [['c', 'hange'], undefined],
-  [['cN', 'ext'], undefined],
-  [['cNf', 'ile'], undefined],
+  [['cN', 'ext'], QuickfixCommand.argParser(QuickfixCommandType.Previous, false)],
+  [['cNf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.PreviousFile, false)],
   [['ca', 'bbrev'], undefined],
   [['cabc', 'lear'], undefined],
   [['cabo', 've'], undefined],
   [['cad', 'dbuffer'], undefined],
-  [['cadde', 'xpr'], undefined],
-  [['caddf', 'ile'], undefined],
+  [['cadde', 'xpr'], CexprCommand.argParser({ location: false, add: true, jump: false })],
+  [['caddf', 'ile'], CfileCommand.argParser({ location: false, add: true, jump: false })],
   [['caf', 'ter'], undefined],
   [['cal', 'l'], undefined],
   [['cat', 'ch'], undefined],
@@ -129,39 +138,39 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['cbef', 'ore'], undefined],
   [['cbel', 'ow'], undefined],
   [['cbo', 'ttom'], undefined],
-  [['cc', ''], undefined],
-  [['ccl', 'ose'], succeed(new VsCodeCommand('workbench.action.closePanel'))],
+  [['cc', ''], QuickfixCommand.argParser(QuickfixCommandType.GoTo, false)],
+  [['ccl', 'ose'], QuickfixCommand.argParser(QuickfixCommandType.Close, false)],
   [['cd', ''], undefined],
-  [['cdo', ''], undefined],
+  [['cdo', ''], CdoCommand.argParser({ location: false, perFile: false })],
   [['ce', 'nter'], CenterCommand.argParser],
-  [['cex', 'pr'], undefined],
-  [['cf', 'ile'], undefined],
-  [['cfd', 'o'], undefined],
-  [['cfir', 'st'], undefined],
-  [['cg', 'etfile'], undefined],
+  [['cex', 'pr'], CexprCommand.argParser({ location: false, jump: true })],
+  [['cf', 'ile'], CfileCommand.argParser({ location: false, jump: true })],
+  [['cfd', 'o'], CdoCommand.argParser({ location: false, perFile: true })],
+  [['cfir', 'st'], QuickfixCommand.argParser(QuickfixCommandType.First, false)],
+  [['cg', 'etfile'], CfileCommand.argParser({ location: false, jump: false })],
   [['cgetb', 'uffer'], undefined],
-  [['cgete', 'xpr'], undefined],
+  [['cgete', 'xpr'], CexprCommand.argParser({ location: false, jump: false })],
   [['changes', ''], undefined],
   [['chd', 'ir'], undefined],
   [['che', 'ckpath'], undefined],
   [['checkh', 'ealth'], undefined],
   [['checkt', 'ime'], undefined],
-  [['chi', 'story'], undefined],
-  [['cl', 'ist'], undefined],
-  [['cla', 'st'], undefined],
+  [['chi', 'story'], QuickfixCommand.argParser(QuickfixCommandType.History, false)],
+  [['cl', 'ist'], QuickfixCommand.argParser(QuickfixCommandType.List, false)],
+  [['cla', 'st'], QuickfixCommand.argParser(QuickfixCommandType.Last, false)],
   [['cle', 'arjumps'], succeed(new ClearJumpsCommand())],
   [['clo', 'se'], CloseCommand.argParser],
   [['cm', 'ap'], undefined],
   [['cmapc', 'lear'], undefined],
   [['cme', 'nu'], undefined],
-  [['cn', 'ext'], succeed(new VsCodeCommand('editor.action.marker.nextInFiles'))],
-  [['cnew', 'er'], undefined],
-  [['cnf', 'ile'], succeed(new VsCodeCommand('editor.action.marker.nextInFiles'))],
+  [['cn', 'ext'], QuickfixCommand.argParser(QuickfixCommandType.Next, false)],
+  [['cnew', 'er'], QuickfixCommand.argParser(QuickfixCommandType.Newer, false)],
+  [['cnf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.NextFile, false)],
   [['cno', 'remap'], undefined],
   [['cnorea', 'bbrev'], undefined],
   [['cnoreme', 'nu'], undefined],
   [['co', 'py'], CopyCommand.argParser],
-  [['col', 'der'], undefined],
+  [['col', 'der'], QuickfixCommand.argParser(QuickfixCommandType.Older, false)],
   [['colo', 'rscheme'], undefined],
   [['com', 'mand'], undefined],
   [['comc', 'lear'], undefined],
@@ -169,17 +178,17 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['con', 'tinue'], undefined],
   [['conf', 'irm'], undefined],
   [['cons', 't'], undefined],
-  [['cope', 'n'], succeed(new VsCodeCommand('workbench.panel.markers.view.focus'))],
-  [['cp', 'revious'], succeed(new VsCodeCommand('editor.action.marker.prevInFiles'))],
-  [['cpf', 'ile'], succeed(new VsCodeCommand('editor.action.marker.prevInFiles'))],
+  [['cope', 'n'], QuickfixCommand.argParser(QuickfixCommandType.Open, false)],
+  [['cp', 'revious'], QuickfixCommand.argParser(QuickfixCommandType.Previous, false)],
+  [['cpf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.PreviousFile, false)],
   [['cq', 'uit'], undefined],
-  [['cr', 'ewind'], undefined],
+  [['cr', 'ewind'], QuickfixCommand.argParser(QuickfixCommandType.First, false)],
   [['cs', 'cope'], undefined],
   [['cst', 'ag'], undefined],
   [['cu', 'nmap'], undefined],
   [['cuna', 'bbrev'], undefined],
   [['cunme', 'nu'], undefined],
-  [['cw', 'indow'], succeed(new VsCodeCommand('workbench.panel.markers.view.focus'))],
+  [['cw', 'indow'], QuickfixCommand.argParser(QuickfixCommandType.Window, false)],
   [['d', 'elete'], DeleteCommand.argParser],
   [['deb', 'ug'], undefined],
   [['debugg', 'reedy'], undefined],
@@ -204,7 +213,7 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['ds', 'earch'], undefined],
   [['dsp', 'lit'], undefined],
   [['e', 'dit'], FileCommand.argParsers.edit],
-  [['ea', 'rlier'], undefined],
+  [['ea', 'rlier'], EarlierLaterCommand.argParser(false)],
   [['ec', 'ho'], undefined],
   [['echoe', 'rr'], undefined],
   [['echoh', 'l'], undefined],
@@ -239,10 +248,10 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['foldo', 'pen'], undefined],
   [['for', ''], undefined],
   [['fu', 'nction'], undefined],
-  [['g', 'lobal'], undefined],
+  [['g', 'lobal'], GlobalCommand.argParser(false)],
   [['go', 'to'], GotoCommand.argParser],
-  [['gr', 'ep'], undefined],
-  [['grepa', 'dd'], undefined],
+  [['gr', 'ep'], MakeCommand.argParser({ grep: true, location: false })],
+  [['grepa', 'dd'], MakeCommand.argParser({ grep: true, location: false, add: true })],
   [['gu', 'i'], undefined],
   [['gv', 'im'], undefined],
   [['h', 'elp'], undefined],
@@ -279,70 +288,70 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['keepj', 'umps'], undefined],
   [['keepp', 'atterns'], undefined],
   [['l', 'ist'], PrintCommand.argParser({ printNumbers: false, printText: true })],
-  [['lN', 'ext'], undefined],
-  [['lNf', 'ile'], undefined],
+  [['lN', 'ext'], QuickfixCommand.argParser(QuickfixCommandType.Previous, true)],
+  [['lNf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.PreviousFile, true)],
   [['la', 'st'], undefined],
   [['lab', 'ove'], undefined],
-  [['lad', 'dexpr'], undefined],
+  [['lad', 'dexpr'], CexprCommand.argParser({ location: true, add: true, jump: false })],
   [['laddb', 'uffer'], undefined],
-  [['laddf', 'ile'], undefined],
+  [['laddf', 'ile'], CfileCommand.argParser({ location: true, add: true, jump: false })],
   [['laf', 'ter'], undefined],
   [['lan', 'guage'], undefined],
-  [['lat', 'er'], undefined],
+  [['lat', 'er'], EarlierLaterCommand.argParser(true)],
   [['lb', 'uffer'], undefined],
   [['lbef', 'ore'], undefined],
   [['lbel', 'ow'], undefined],
   [['lbo', 'ttom'], undefined],
   [['lc', 'd'], undefined],
   [['lch', 'dir'], undefined],
-  [['lcl', 'ose'], succeed(new VsCodeCommand('workbench.action.closePanel'))],
+  [['lcl', 'ose'], QuickfixCommand.argParser(QuickfixCommandType.Close, true)],
   [['lcs', 'cope'], undefined],
-  [['ld', 'o'], undefined],
+  [['ld', 'o'], CdoCommand.argParser({ location: true, perFile: false })],
   [['le', 'ft'], LeftCommand.argParser],
   [['lefta', 'bove'], undefined],
   [['let', ''], undefined],
-  [['lex', 'pr'], undefined],
-  [['lf', 'ile'], undefined],
-  [['lfd', 'o'], undefined],
-  [['lfir', 'st'], undefined],
-  [['lg', 'etfile'], undefined],
+  [['lex', 'pr'], CexprCommand.argParser({ location: true, jump: true })],
+  [['lf', 'ile'], CfileCommand.argParser({ location: true, jump: true })],
+  [['lfd', 'o'], CdoCommand.argParser({ location: true, perFile: true })],
+  [['lfir', 'st'], QuickfixCommand.argParser(QuickfixCommandType.First, true)],
+  [['lg', 'etfile'], CfileCommand.argParser({ location: true, jump: false })],
   [['lgetb', 'uffer'], undefined],
-  [['lgete', 'xpr'], undefined],
-  [['lgr', 'ep'], undefined],
-  [['lgrepa', 'dd'], undefined],
+  [['lgete', 'xpr'], CexprCommand.argParser({ location: true, jump: false })],
+  [['lgr', 'ep'], MakeCommand.argParser({ grep: true, location: true })],
+  [['lgrepa', 'dd'], MakeCommand.argParser({ grep: true, location: true, add: true })],
   [['lh', 'elpgrep'], undefined],
-  [['lhi', 'story'], undefined],
-  [['ll', ''], undefined],
-  [['lla', 'st'], undefined],
-  [['lli', 'st'], undefined],
+  [['lhi', 'story'], QuickfixCommand.argParser(QuickfixCommandType.History, true)],
+  [['ll', ''], QuickfixCommand.argParser(QuickfixCommandType.GoTo, true)],
+  [['lla', 'st'], QuickfixCommand.argParser(QuickfixCommandType.Last, true)],
+  [['lli', 'st'], QuickfixCommand.argParser(QuickfixCommandType.List, true)],
   [['lm', 'ap'], undefined],
-  [['lmak', 'e'], undefined],
+  [['lmak', 'e'], MakeCommand.argParser({ grep: false, location: true })],
   [['lmapc', 'lear'], undefined],
   [['ln', 'oremap'], undefined],
-  [['lne', 'xt'], succeed(new VsCodeCommand('editor.action.nextCommentThreadAction'))],
-  [['lnew', 'er'], undefined],
-  [['lnf', 'ile'], undefined],
+  [['lne', 'xt'], QuickfixCommand.argParser(QuickfixCommandType.Next, true)],
+  [['lnew', 'er'], QuickfixCommand.argParser(QuickfixCommandType.Newer, true)],
+  [['lnf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.NextFile, true)],
   [['lo', 'adview'], undefined],
   [['loadk', 'eymap'], undefined],
   [['loc', 'kmarks'], undefined],
   [['lockv', 'ar'], undefined],
-  [['lol', 'der'], undefined],
-  [['lope', 'n'], succeed(new VsCodeCommand('workbench.action.focusCommentsPanel'))],
-  [['lp', 'revious'], succeed(new VsCodeCommand('editor.action.previousCommentThreadAction'))],
-  [['lpf', 'ile'], undefined],
-  [['lr', 'ewind'], undefined],
+  [['lol', 'der'], QuickfixCommand.argParser(QuickfixCommandType.Older, true)],
+  [['lope', 'n'], QuickfixCommand.argParser(QuickfixCommandType.Open, true)],
+  [['lp', 'revious'], QuickfixCommand.argParser(QuickfixCommandType.Previous, true)],
+  [['lpf', 'ile'], QuickfixCommand.argParser(QuickfixCommandType.PreviousFile, true)],
+  [['lr', 'ewind'], QuickfixCommand.argParser(QuickfixCommandType.First, true)],
   [['ls', ''], undefined],
   [['lt', 'ag'], undefined],
   [['lu', 'nmap'], undefined],
   [['lua', ''], undefined],
   [['luad', 'o'], undefined],
   [['luaf', 'ile'], undefined],
-  [['lv', 'imgrep'], undefined],
-  [['lvimgrepa', 'dd'], undefined],
-  [['lw', 'indow'], succeed(new VsCodeCommand('workbench.action.focusCommentsPanel'))],
+  [['lv', 'imgrep'], VimgrepCommand.argParser({ location: true })],
+  [['lvimgrepa', 'dd'], VimgrepCommand.argParser({ location: true, add: true })],
+  [['lw', 'indow'], QuickfixCommand.argParser(QuickfixCommandType.Window, true)],
   [['m', 'ove'], MoveCommand.argParser],
   [['ma', 'rk'], undefined],
-  [['mak', 'e'], undefined],
+  [['mak', 'e'], MakeCommand.argParser({ grep: false, location: false })],
   [['map', ''], undefined],
   [['mapc', 'lear'], undefined],
   [['marks', ''], MarksCommand.argParser],
@@ -368,7 +377,7 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['noh', 'lsearch'], succeed(new NohlCommand())],
   [['norea', 'bbrev'], undefined],
   [['noreme', 'nu'], undefined],
-  [['norm', 'al'], undefined],
+  [['norm', 'al'], NormalCommand.argParser],
   [['nos', 'wapfile'], undefined],
   [['nu', 'mber'], PrintCommand.argParser({ printNumbers: true, printText: true })],
   [['nun', 'map'], undefined],
@@ -553,7 +562,7 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['u', 'ndo'], UndoCommand.argParser],
   [['una', 'bbreviate'], undefined],
   [['undoj', 'oin'], undefined],
-  [['undol', 'ist'], undefined],
+  [['undol', 'ist'], succeed(new UndoListCommand())],
   [['unh', 'ide'], undefined],
   [['unl', 'et'], undefined],
   [['unlo', 'ckvar'], undefined],
@@ -561,14 +570,14 @@ export const builtinExCommands: ReadonlyArray<[[string, string], ArgParser | und
   [['unme', 'nu'], undefined],
   [['uns', 'ilent'], undefined],
   [['up', 'date'], WriteCommand.argParser],
-  [['v', 'global'], undefined],
+  [['v', 'global'], GlobalCommand.argParser(true)],
   [['ve', 'rsion'], undefined],
   [['verb', 'ose'], undefined],
   [['vert', 'ical'], undefined],
   [['vi', 'sual'], undefined],
   [['vie', 'w'], undefined],
-  [['vim', 'grep'], undefined],
-  [['vimgrepa', 'dd'], undefined],
+  [['vim', 'grep'], VimgrepCommand.argParser({ location: false })],
+  [['vimgrepa', 'dd'], VimgrepCommand.argParser({ location: false, add: true })],
   [['viu', 'sage'], undefined],
   [['vm', 'ap'], undefined],
   [['vmapc', 'lear'], undefined],
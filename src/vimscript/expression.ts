@@ -1,4 +1,4 @@
-import { alt, any, Parser, regexp, string, noneOf } from 'parsimmon';
+import { alt, any, Parser, regexp, string, noneOf, optWhitespace } from 'parsimmon';
 import { configuration } from '../configuration/configuration';
 
 const leaderParser = regexp(/<leader>/).map(() => configuration.leader); // lazy evaluation of configuration.leader
@@ -24,3 +24,31 @@ export const keystrokesExpressionParser: Parser<string[]> = alt(
   specialCharacterParser,
   noneOf('"')
 ).many();
+
+/**
+ * Keys as `:normal` takes them, where `"` and `\` are typed like any other key
+ */
+export const normalKeystrokesParser: Parser<string[]> = alt(specialCharacterParser, any).many();
+
+const singleQuotedStringParser: Parser<string> = regexp(/'((?:[^']|'')*)'/, 1).map((text) =>
+  text.replace(/''/g, "'")
+);
+
+const doubleQuotedStringParser: Parser<string> = regexp(/"((?:[^"\\]|\\.)*)"/, 1).map((text) =>
+  text.replace(/\\(.)/g, (_match, escaped: string) =>
+    escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped
+  )
+);
+
+const stringParser = alt(singleQuotedStringParser, doubleQuotedStringParser);
+
+/**
+ * A string or a list of strings, which is all of Vim's expressions that `:cexpr` and the like understand
+ */
+export const stringListExpressionParser: Parser<string[]> = alt(
+  stringParser.map((text) => [text]),
+  stringParser
+    .sepBy(regexp(/\s*,\s*/))
+    .trim(optWhitespace)
+    .wrap(string('['), regexp(/,?\s*\]/))
+);
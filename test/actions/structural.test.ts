@@ -0,0 +1,214 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { Position } from 'vscode';
+
+import {
+  expandWrapTemplate,
+  getListRange,
+  getStubDefinition,
+  mapNodePosition,
+  reindent,
+  splitList,
+} from '../../src/actions/commands/structural';
+import { ASTNode } from '../../src/clangd/ast';
+
+suite('structural editing helpers', () => {
+  suite('reindent', () => {
+    test('moves the lines after the first to the new indentation', () => {
+      assert.strictEqual(
+        reindent('if (a) {\n    b();\n  }', '  ', '\t'),
+        'if (a) {\n\t  b();\n\t}'
+      );
+    });
+
+    test('leaves the lines which are less indented alone', () => {
+      assert.strictEqual(reindent('a(\nb);', '  ', '    '), 'a(\nb);');
+    });
+  });
+
+  suite('expandWrapTemplate', () => {
+    test('indents the body and the template at the indentation of the body', () => {
+      assert.deepStrictEqual(
+        expandWrapTemplate('if (|) {\n\t$body\n}', 'a();\n  b();', '  ', '  '),
+        { text: 'if () {\n    a();\n    b();\n  }', placeholder: 4 }
+      );
+    });
+
+    test('has no placeholder if the template has none', () => {
+      assert.deepStrictEqual(expandWrapTemplate('{\n\t$body\n}', 'a();', '', '\t'), {
+        text: '{\n\ta();\n}',
+        placeholder: undefined,
+      });
+    });
+
+    test('takes the body literally', () => {
+      assert.deepStrictEqual(
+        expandWrapTemplate('while (|) {\n\t$body\n}', "x = a | '$&';", '', '\t'),
+        {
+          text: "while () {\n\tx = a | '$&';\n}",
+          placeholder: 7,
+        }
+      );
+    });
+  });
+
+  suite('mapNodePosition', () => {
+    const makeChange = (range: vscode.Range, text: string) => ({
+      range,
+      text,
+      rangeOffset: 0,
+      rangeLength: 0,
+    });
+
+    test('leaves positions before the change where they are', () => {
+      const change = makeChange(new vscode.Range(1, 0, 1, 3), 'abcdef');
+      assert.deepStrictEqual(
+        mapNodePosition(new Position(0, 5), change, false),
+        new Position(0, 5)
+      );
+    });
+
+    test('moves positions after the change along with the text', () => {
+      const change = makeChange(new vscode.Range(1, 2, 1, 4), 'x\nyz');
+      assert.deepStrictEqual(
+        mapNodePosition(new Position(1, 6), change, false),
+        new Position(2, 4)
+      );
+      assert.deepStrictEqual(mapNodePosition(new Position(3, 1), change, true), new Position(4, 1));
+    });
+
+    test('leaves text inserted right before or after a node outside of it', () => {
+      const change = makeChange(new vscode.Range(1, 2, 1, 2), 'abc');
+      assert.deepStrictEqual(
+        mapNodePosition(new Position(1, 2), change, false),
+        new Position(1, 5)
+      );
+      assert.deepStrictEqual(mapNodePosition(new Position(1, 2), change, true), new Position(1, 2));
+    });
+
+    test('covers whatever replaces the text of a node', () => {
+      const change = makeChange(new vscode.Range(1, 2, 3, 1), 'a\nb');
+      assert.deepStrictEqual(
+        mapNodePosition(new Position(1, 2), change, false),
+        new Position(1, 2)
+      );
+      assert.deepStrictEqual(mapNodePosition(new Position(3, 1), change, true), new Position(2, 1));
+      assert.deepStrictEqual(mapNodePosition(new Position(2, 0), change, true), new Position(2, 1));
+    });
+  });
+
+  suite('getStubDefinition', () => {
+    const makeNode = (
+      kind: string,
+      [line, startCharacter, endCharacter]: number[],
+      detail?: string,
+      children?: ASTNode[]
+    ): ASTNode => ({
+      role: kind === 'IntegerLiteral' ? 'expression' : 'declaration',
+      kind,
+      detail,
+      children,
+      range: {
+        start: { line, character: startCharacter },
+        end: { line, character: endCharacter },
+      },
+    });
+    const scopes = [makeNode('Namespace', [0, 0, 1], 'n'), makeNode('CXXRecord', [1, 0, 1], 'S')];
+
+    let document: vscode.TextDocument;
+    suiteSetup(async () => {
+      document = await vscode.workspace.openTextDocument({
+        language: 'plaintext',
+        content: [
+          'namespace n {',
+          'struct S {',
+          '  virtual int f(int a, int b = 2) const override;',
+          '  virtual void g() = 0;',
+          '};',
+          '}',
+        ].join('\n'),
+      });
+    });
+
+    test('qualifies the name and leaves out default arguments and class specifiers', () => {
+      const method = makeNode('CXXMethod', [2, 2, 48], 'f', [
+        makeNode('FunctionProto', [2, 2, 48], undefined, [
+          makeNode('ParmVar', [2, 16, 21], 'a'),
+          makeNode('ParmVar', [2, 23, 32], 'b', [makeNode('IntegerLiteral', [2, 31, 32])]),
+        ]),
+      ]);
+      assert.strictEqual(
+        getStubDefinition(document, method, scopes),
+        'int n::S::f(int a, int b) const {\n}\n'
+      );
+    });
+
+    test('defines a pure virtual method', () => {
+      const method = makeNode('CXXMethod', [3, 2, 22], 'g', [
+        makeNode('FunctionProto', [3, 2, 22]),
+      ]);
+      assert.strictEqual(getStubDefinition(document, method, scopes), 'void n::S::g() {\n}\n');
+    });
+  });
+
+  suite('splitList', () => {
+    test('splits at the commas outside of brackets and template arguments', () => {
+      assert.deepStrictEqual(splitList('int a, std::map<int, int> m, void (*f)(int, int)'), [
+        'int a',
+        'std::map<int, int> m',
+        'void (*f)(int, int)',
+      ]);
+    });
+
+    test('takes angle brackets in default arguments for operators', () => {
+      assert.deepStrictEqual(splitList('int a = x < y, int b = p >> 1, int c = q->r, int d'), [
+        'int a = x < y',
+        'int b = p >> 1',
+        'int c = q->r',
+        'int d',
+      ]);
+    });
+
+    test('leaves the commas in literals and comments alone', () => {
+      assert.deepStrictEqual(splitList(`char c = ',', const char *s = "(,", int /* a, b */ n`), [
+        "char c = ','",
+        'const char *s = "(,"',
+        'int /* a, b */ n',
+      ]);
+    });
+  });
+
+  suite('getListRange', () => {
+    const getRange = async (content: string, from: Position, last?: Position) =>
+      getListRange(
+        await vscode.workspace.openTextDocument({ language: 'plaintext', content }),
+        from,
+        last
+      );
+
+    test('finds the parenthesis matching the first one', async () => {
+      assert.deepStrictEqual(
+        await getRange('f(g(x), y);', new Position(0, 0)),
+        new vscode.Range(0, 2, 0, 9)
+      );
+    });
+
+    test('leaves the parentheses in literals and comments alone', async () => {
+      assert.deepStrictEqual(
+        await getRange(`f(")", ')', /* ) */ x);`, new Position(0, 0)),
+        new vscode.Range(0, 2, 0, 21)
+      );
+    });
+
+    test('skips the parentheses which close before the last parameter', async () => {
+      assert.deepStrictEqual(
+        await getRange('int operator()(int a) const;', new Position(0, 4), new Position(0, 20)),
+        new vscode.Range(0, 15, 0, 20)
+      );
+    });
+
+    test('returns undefined without a list', async () => {
+      assert.strictEqual(await getRange('int a;', new Position(0, 0)), undefined);
+    });
+  });
+});
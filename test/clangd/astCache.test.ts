@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+
+import { ASTNode } from '../../src/clangd/ast';
+import { AstCache } from '../../src/clangd/ast-cache';
+import { ClangdContext } from '../../src/clangd/clangd-context';
+
+suite('AST cache', () => {
+  // int a = 1;
+  // int b = 2;
+  const makeNode = (
+    kind: string,
+    [startLine, startCharacter, endLine, endCharacter]: number[],
+    children?: ASTNode[]
+  ): ASTNode => ({
+    role: kind === 'IntegerLiteral' ? 'expression' : 'declaration',
+    kind,
+    children,
+    range: {
+      start: { line: startLine, character: startCharacter },
+      end: { line: endLine, character: endCharacter },
+    },
+  });
+  const makeRoot = (): ASTNode => ({
+    role: 'declaration',
+    kind: 'TranslationUnit',
+    children: [
+      makeNode('Var', [0, 0, 0, 9], [makeNode('IntegerLiteral', [0, 8, 0, 9])]),
+      makeNode('Var', [1, 0, 1, 9], [makeNode('IntegerLiteral', [1, 8, 1, 9])]),
+    ],
+  });
+
+  let document: vscode.TextDocument;
+  let sendRequest: sinon.SinonStub;
+  let cache: AstCache;
+
+  const edit = async (range: vscode.Range, text: string) => {
+    const workspaceEdit = new vscode.WorkspaceEdit();
+    workspaceEdit.replace(document.uri, range, text);
+    assert.ok(await vscode.workspace.applyEdit(workspaceEdit));
+  };
+
+  setup(async () => {
+    document = await vscode.workspace.openTextDocument({
+      language: 'plaintext',
+      content: 'int a = 1;\nint b = 2;',
+    });
+    sendRequest = sinon
+      .stub()
+      .callsFake(async (_type, params) =>
+        params.range === null
+          ? makeRoot()
+          : makeNode('Var', [0, 0, 0, 10], [makeNode('IntegerLiteral', [0, 8, 0, 10])])
+      );
+    cache = new AstCache({
+      client: {
+        sendRequest,
+        code2ProtocolConverter: {
+          asTextDocumentIdentifier: (doc: vscode.TextDocument) => ({ uri: doc.uri.toString() }),
+        },
+      },
+    } as unknown as ClangdContext);
+  });
+
+  teardown(() => {
+    cache.dispose();
+  });
+
+  test('shifts the declarations after an edit rather than fetch them again', async () => {
+    await cache.getRoot(document);
+    await edit(new vscode.Range(0, 10, 0, 10), '\n');
+
+    const root = await cache.getRoot(document);
+    assert.strictEqual(sendRequest.callCount, 1);
+    assert.deepStrictEqual(root?.children?.[0].range?.start, { line: 0, character: 0 });
+    assert.deepStrictEqual(root?.children?.[1].range?.start, { line: 2, character: 0 });
+    assert.deepStrictEqual(root?.children?.[1].children?.[0].range?.start, {
+      line: 2,
+      character: 8,
+    });
+  });
+
+  test('fetches a declaration edited within again on its own', async () => {
+    await cache.getRoot(document);
+    await edit(new vscode.Range(0, 8, 0, 9), '42');
+
+    const root = await cache.getRoot(document);
+    assert.strictEqual(sendRequest.callCount, 2);
+    assert.deepStrictEqual(sendRequest.secondCall.args[1].range, {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 10 },
+    });
+    assert.deepStrictEqual(root?.children?.[0].children?.[0].range?.end, {
+      line: 0,
+      character: 10,
+    });
+    assert.deepStrictEqual(root?.children?.[1].range?.start, { line: 1, character: 0 });
+  });
+
+  test('finds the parents of the nodes of a declaration fetched again', async () => {
+    await cache.getRoot(document);
+    await edit(new vscode.Range(0, 8, 0, 9), '42');
+
+    const root = await cache.getRoot(document);
+    const literal = makeNode('IntegerLiteral', [0, 8, 0, 10]);
+    assert.strictEqual(await cache.getParent(document, literal), root?.children?.[0]);
+  });
+
+  test('fetches the whole tree again after an edit across declarations', async () => {
+    await cache.getRoot(document);
+    await edit(new vscode.Range(0, 5, 1, 5), '');
+
+    await cache.getRoot(document);
+    assert.strictEqual(sendRequest.callCount, 2);
+    assert.strictEqual(sendRequest.secondCall.args[1].range, null);
+  });
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+
+import { getCompileCommandsDir, setCompileCommandsDir } from '../../src/clangd/compile-commands';
+
+suite('compile_commands.json directory', () => {
+  const setArguments = (args: string[] | undefined) =>
+    vscode.workspace
+      .getConfiguration('clangd')
+      .update('arguments', args, vscode.ConfigurationTarget.Global);
+  const getArguments = () => vscode.workspace.getConfiguration('clangd').get<string[]>('arguments');
+
+  const buildDir = path.resolve('/project/build');
+  const root = vscode.workspace.rootPath || process.cwd();
+
+  teardown(async () => {
+    await setArguments(undefined);
+  });
+
+  test('is not set without the flag', async () => {
+    await setArguments(['--log=verbose']);
+    assert.strictEqual(getCompileCommandsDir(), undefined);
+  });
+
+  test('is read from --compile-commands-dir=dir', async () => {
+    await setArguments(['--log=verbose', `--compile-commands-dir=${buildDir}`]);
+    assert.strictEqual(getCompileCommandsDir(), buildDir);
+  });
+
+  test('is read from --compile-commands-dir dir', async () => {
+    await setArguments(['--compile-commands-dir', buildDir, '--log=verbose']);
+    assert.strictEqual(getCompileCommandsDir(), buildDir);
+  });
+
+  test('is resolved against the workspace root when relative', async () => {
+    await setArguments(['--compile-commands-dir=build']);
+    assert.strictEqual(getCompileCommandsDir(), path.join(root, 'build'));
+    await setArguments(['--compile-commands-dir', 'out/debug']);
+    assert.strictEqual(getCompileCommandsDir(), path.join(root, 'out', 'debug'));
+  });
+
+  test('is not set by a trailing flag without a value', async () => {
+    await setArguments(['--log=verbose', '--compile-commands-dir']);
+    assert.strictEqual(getCompileCommandsDir(), undefined);
+  });
+
+  test('is added to the other arguments', async () => {
+    await setArguments(['--log=verbose']);
+    await setCompileCommandsDir(buildDir);
+    assert.deepStrictEqual(getArguments(), ['--log=verbose', `--compile-commands-dir=${buildDir}`]);
+  });
+
+  test('replaces --compile-commands-dir=dir', async () => {
+    await setArguments(['--compile-commands-dir=old', '--log=verbose']);
+    await setCompileCommandsDir(buildDir);
+    assert.deepStrictEqual(getArguments(), ['--log=verbose', `--compile-commands-dir=${buildDir}`]);
+  });
+
+  test('replaces --compile-commands-dir dir', async () => {
+    await setArguments(['--log=verbose', '--compile-commands-dir', 'old', '-j=4']);
+    await setCompileCommandsDir(buildDir);
+    assert.deepStrictEqual(getArguments(), [
+      '--log=verbose',
+      '-j=4',
+      `--compile-commands-dir=${buildDir}`,
+    ]);
+  });
+
+  test('keeps the substitutions of the other arguments', async () => {
+    await setArguments(['--query-driver=${workspaceFolder}/bin/gcc']);
+    await setCompileCommandsDir(buildDir);
+    assert.deepStrictEqual(getArguments(), [
+      '--query-driver=${workspaceFolder}/bin/gcc',
+      `--compile-commands-dir=${buildDir}`,
+    ]);
+  });
+});
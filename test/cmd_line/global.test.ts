@@ -0,0 +1,64 @@
+import { newTest } from '../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from './../testUtils';
+
+suite(':global', () => {
+  suiteSetup(setupWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: ':g/pattern/d deletes every matching line',
+    start: ['foo 1', 'bar', 'fo|o 2', 'baz'],
+    keysPressed: ':g/foo/d\n',
+    end: ['bar', '|baz'],
+  });
+
+  newTest({
+    title: ':g/pattern/d deletes adjacent matching lines',
+    start: ['|foo', 'foo', 'bar', 'foo'],
+    keysPressed: ':g/foo/d\n',
+    end: ['|bar'],
+  });
+
+  newTest({
+    title: ':g with a range only looks at the lines in it',
+    start: ['|foo', 'foo', 'foo', 'foo'],
+    keysPressed: ':2,3g/foo/d\n',
+    end: ['foo', '|foo'],
+  });
+
+  newTest({
+    title: ':v/pattern/d deletes every line which does not match',
+    start: ['foo 1', '|bar', 'foo 2', 'baz'],
+    keysPressed: ':v/foo/d\n',
+    end: ['foo 1', '|foo 2'],
+  });
+
+  newTest({
+    title: ':g!/pattern/d is the same as :v',
+    start: ['foo 1', '|bar', 'foo 2', 'baz'],
+    keysPressed: ':g!/foo/d\n',
+    end: ['foo 1', '|foo 2'],
+  });
+
+  newTest({
+    title: ':g leaves the document alone when nothing matches',
+    start: ['|foo', 'bar'],
+    keysPressed: ':g/baz/d\n',
+    end: ['|foo', 'bar'],
+  });
+
+  newTest({
+    title: ':g is undone in a single step',
+    start: ['|foo', 'bar', 'foo', 'baz'],
+    keysPressed: ':g/foo/d\nu',
+    end: ['|foo', 'bar', 'foo', 'baz'],
+  });
+
+  newTest({
+    title: ':g reports a command it does not know',
+    start: ['|foo', 'bar'],
+    keysPressed: ':g/foo/bogus\n',
+    end: ['|foo', 'bar'],
+    statusBar: 'E492: Not an editor command: bogus',
+  });
+});
@@ -0,0 +1,68 @@
+import { Mode } from '../../src/mode/mode';
+import { newTest } from '../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from './../testUtils';
+
+suite(':normal', () => {
+  suiteSetup(setupWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: ':norm without a range types the keys at the cursor',
+    start: ['one |two three'],
+    keysPressed: ':norm dw\n',
+    end: ['one |three'],
+  });
+
+  newTest({
+    title: ':%norm types the keys at the start of every line and leaves Insert mode',
+    start: ['|ab', 'cd', 'ef'],
+    keysPressed: ':%norm A;\n',
+    end: ['ab;', 'cd;', 'ef|;'],
+    endMode: Mode.Normal,
+  });
+
+  newTest({
+    title: ':norm! with a range only changes the lines in it',
+    start: ['|ab', 'cd', 'ef'],
+    keysPressed: ':2,3norm! Ix\n',
+    end: ['ab', 'xcd', '|xef'],
+  });
+
+  newTest({
+    title: ':norm sees the lines as the previous ones left them',
+    start: ['|ab', 'cd', 'ef'],
+    keysPressed: ':%norm dd\n',
+    end: ['|'],
+  });
+
+  newTest({
+    title: ':norm is undone in a single step',
+    start: ['|ab', 'cd', 'ef'],
+    keysPressed: ':%norm 0x\nu',
+    end: ['|ab', 'cd', 'ef'],
+  });
+
+  newTest({
+    title: ":'<,'>norm types the keys on the lines selected last",
+    start: ['|ab', 'cd', 'ef'],
+    keysPressed: "Vj<Esc>:'<,'>norm A;\n",
+    end: ['ab;', 'cd|;', 'ef'],
+    endMode: Mode.Normal,
+  });
+
+  newTest({
+    title: ':norm applies the mappings of Normal mode',
+    config: { normalModeKeyBindingsNonRecursive: [{ before: ['x'], after: ['d', 'w'] }] },
+    start: ['|ab cd', 'ef gh'],
+    keysPressed: ':%norm x\n',
+    end: ['cd', '|gh'],
+  });
+
+  newTest({
+    title: ':norm! leaves the mappings of Normal mode out',
+    config: { normalModeKeyBindingsNonRecursive: [{ before: ['x'], after: ['d', 'w'] }] },
+    start: ['|ab cd', 'ef gh'],
+    keysPressed: ':%norm! x\n',
+    end: ['b cd', '|f gh'],
+  });
+});
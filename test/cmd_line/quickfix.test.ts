@@ -0,0 +1,360 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+
+import { getAndUpdateModeHandler } from '../../extension';
+import { ErrorCode, VimError } from '../../src/error';
+import { ModeHandler } from '../../src/mode/modeHandler';
+import { ErrorFormat } from '../../src/quickfix/errorFormat';
+import {
+  IQuickfixEntry,
+  isValidEntry,
+  parseOutput,
+  QuickfixList,
+  quickfixLists,
+} from '../../src/quickfix/quickfix';
+import { StatusBar } from '../../src/statusBar';
+import { stringListExpressionParser } from '../../src/vimscript/expression';
+import { newTest } from '../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from './../testUtils';
+
+suite('errorformat', () => {
+  const errorformat = '%f:%l:%c: %trror: %m,%f:%l:%c: %m,%f:%l: %m,%-Gmake: %m';
+
+  test('parses the file, position, type and message of a line', () => {
+    assert.deepStrictEqual(
+      new ErrorFormat(errorformat).parseLine('src/a.c:10:5: error: expected expression'),
+      { file: 'src/a.c', line: 10, column: 5, type: 'E', message: 'expected expression' }
+    );
+  });
+
+  test('tries the formats in order', () => {
+    assert.deepStrictEqual(new ErrorFormat(errorformat).parseLine('b.h:3: note: here'), {
+      file: 'b.h',
+      line: 3,
+      message: 'note: here',
+    });
+  });
+
+  test('drops the lines %-G formats match', () => {
+    assert.strictEqual(new ErrorFormat(errorformat).parseLine('make: *** [all] Error 1'), null);
+  });
+
+  test('takes escaped commas literally', () => {
+    assert.deepStrictEqual(new ErrorFormat('%f\\,%l\\,%m').parseLine('a.c,3,oops'), {
+      file: 'a.c',
+      line: 3,
+      message: 'oops',
+    });
+  });
+
+  test('keeps the lines no format matches as text', () => {
+    const entries = parseOutput(
+      'In file included from a.c\na.c:2:1: error: oops',
+      errorformat,
+      '/'
+    );
+    assert.deepStrictEqual(
+      entries.map((entry) => [isValidEntry(entry), entry.line, entry.column, entry.text]),
+      [
+        [false, undefined, undefined, 'In file included from a.c'],
+        [true, 1, 0, 'oops'],
+      ]
+    );
+  });
+});
+
+suite('stringListExpressionParser', () => {
+  test('parses a string', () => {
+    assert.deepStrictEqual(stringListExpressionParser.tryParse(`'it''s'`), ["it's"]);
+    assert.deepStrictEqual(stringListExpressionParser.tryParse('"a\\tb\\n\\""'), ['a\tb\n"']);
+  });
+
+  test('parses a list of strings', () => {
+    assert.deepStrictEqual(stringListExpressionParser.tryParse(`[ 'a', "b",]`), ['a', 'b']);
+    assert.deepStrictEqual(stringListExpressionParser.tryParse('[]'), []);
+  });
+
+  test('rejects other expressions', () => {
+    assert.strictEqual(stringListExpressionParser.parse('1 + 2').status, false);
+  });
+});
+
+suite('QuickfixList', () => {
+  const a = vscode.Uri.file('/a.c');
+  const b = vscode.Uri.file('/b.c');
+  const c = vscode.Uri.file('/c.c');
+  const makeEntry = (uri: vscode.Uri, line: number): IQuickfixEntry => ({ uri, line, text: '' });
+
+  test('moveFile goes to the first entry of the next file or the previous one', () => {
+    const entries = [
+      makeEntry(a, 0),
+      makeEntry(a, 1),
+      { text: 'In file included from b.c' },
+      makeEntry(b, 0),
+      makeEntry(c, 0),
+      makeEntry(c, 1),
+    ];
+    const list = new QuickfixList('', entries);
+    assert.strictEqual(list.moveFile(1), entries[3]);
+    assert.strictEqual(list.moveFile(1), entries[4]);
+    list.goTo(6);
+    assert.strictEqual(list.moveFile(-2), entries[0]);
+    assert.strictEqual(list.moveFile(5), entries[4]);
+    assert.throws(() => list.moveFile(1), VimError.fromCode(ErrorCode.NoMoreItems));
+  });
+
+  test('adjust keeps the entries of a document on their lines as lines are deleted', () => {
+    const entries = [makeEntry(a, 1), makeEntry(a, 3), makeEntry(a, 5), makeEntry(b, 5)];
+    const list = new QuickfixList('', entries);
+    const adjusted = list.adjust(a, {
+      range: new vscode.Range(2, 0, 4, 0),
+      rangeOffset: 0,
+      rangeLength: 0,
+      text: '',
+    });
+    assert.ok(adjusted);
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.line),
+      [1, 2, 3, 5]
+    );
+  });
+
+  test('adjust leaves the entries alone when no line is added or deleted', () => {
+    const entries = [makeEntry(a, 1), makeEntry(a, 3)];
+    const list = new QuickfixList('', entries);
+    const adjusted = list.adjust(a, {
+      range: new vscode.Range(1, 0, 1, 2),
+      rangeOffset: 0,
+      rangeLength: 0,
+      text: 'abc',
+    });
+    assert.ok(!adjusted);
+    assert.deepStrictEqual(
+      entries.map((entry) => entry.line),
+      [1, 3]
+    );
+  });
+});
+
+suite('quickfix', () => {
+  suiteSetup(setupWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+  setup(() => quickfixLists.clear());
+
+  newTest({
+    title: ':vimgrep goes to the first match',
+    start: ['|bar', 'a foo', 'foo b'],
+    keysPressed: ':vim /foo/ %\n',
+    end: ['bar', 'a |foo', 'foo b'],
+  });
+
+  newTest({
+    title: ':vimgrep with j does not go to the first match',
+    start: ['|bar', 'a foo', 'foo b'],
+    keysPressed: ':vim /foo/j %\n',
+    end: ['|bar', 'a foo', 'foo b'],
+  });
+
+  newTest({
+    title: ':cnext and :cprevious go through the matches',
+    start: ['|foo', 'bar', 'a foo', 'b foo'],
+    keysPressed: ':vim /foo/ %\n:cn\n:cn\n:cp\n',
+    end: ['foo', 'bar', 'a |foo', 'b foo'],
+  });
+
+  newTest({
+    title: ':cnext stops at the last match',
+    start: ['|foo', 'a foo'],
+    keysPressed: ':vim /foo/ %\n:cn 5\n:cn\n',
+    end: ['foo', 'a |foo'],
+  });
+
+  newTest({
+    title: ':vimgrep with g lists every match of a line',
+    start: ['|foo foo', 'bar'],
+    keysPressed: ':vim /foo/g %\n:cn\n',
+    end: ['foo |foo', 'bar'],
+  });
+
+  newTest({
+    title: ':cc, :clast and :cfirst go to an entry',
+    start: ['|foo', 'a foo', 'b foo'],
+    keysPressed: ':vim /foo/ %\n:cc 2\nx:clast\nx:cfirst\nx',
+    end: ['|oo', 'a oo', 'b oo'],
+  });
+
+  newTest({
+    title: ':colder goes back to the previous list',
+    start: ['|foo', 'bar', 'a foo'],
+    keysPressed: ':vim /foo/ %\n:cn\n:vim /bar/ %\n:colder\n:cc\n',
+    end: ['foo', 'bar', 'a |foo'],
+  });
+
+  newTest({
+    title: ':cdo runs a command at each entry',
+    start: ['|foo', 'x', 'foo foo'],
+    keysPressed: ':vim /foo/ %\n:cdo s/foo/baz/\n',
+    end: ['baz', 'x', '|baz foo'],
+  });
+
+  newTest({
+    title: ':cdo follows the entries as the document changes',
+    start: ['|foo', 'x', 'foo', 'y'],
+    keysPressed: ':vim /foo/ %\n:cdo normal Onew\n',
+    end: ['new', 'foo', 'x', 'ne|w', 'foo', 'y'],
+  });
+
+  newTest({
+    title: ':lvimgrep fills the location list of the document',
+    start: ['|foo', 'a foo'],
+    keysPressed: ':lvim /foo/ %\n:lne\n',
+    end: ['foo', 'a |foo'],
+  });
+
+  newTest({
+    title: ':cdo reports a command it does not know',
+    start: ['|foo', 'a foo'],
+    keysPressed: ':vim /foo/ %\n:cdo bogus\n',
+    end: ['|foo', 'a foo'],
+    statusBar: 'E492: Not an editor command: bogus',
+  });
+
+  newTest({
+    title: ':colder stops at the first list',
+    start: ['|foo', 'a foo'],
+    keysPressed: ':vim /foo/ %\n:colder\n',
+    end: ['|foo', 'a foo'],
+    statusBar: 'E380: At bottom of quickfix stack',
+  });
+
+  newTest({
+    title: ':ll fails without a location list',
+    start: ['|foo', 'a foo'],
+    keysPressed: ':ll\n',
+    end: ['|foo', 'a foo'],
+    statusBar: 'E776: No location list',
+  });
+
+  test('the location list commands act on comments without a location list', async () => {
+    const modeHandler = (await getAndUpdateModeHandler())!;
+    const executeCommand = sinon.spy(vscode.commands, 'executeCommand');
+    try {
+      for (const [command, vscodeCommand] of [
+        ['lnext', 'editor.action.nextCommentThreadAction'],
+        ['lprevious', 'editor.action.previousCommentThreadAction'],
+        ['lopen', 'workbench.action.focusCommentsPanel'],
+        ['lwindow', 'workbench.action.focusCommentsPanel'],
+        ['lclose', 'workbench.action.closePanel'],
+      ]) {
+        executeCommand.resetHistory();
+        await modeHandler.handleMultipleKeyEvents(`:${command}\n`.split(''));
+        assert.ok(executeCommand.calledWith(vscodeCommand), `:${command}`);
+        assert.ok(!StatusBar.getText().startsWith('E'), `:${command}: ${StatusBar.getText()}`);
+      }
+    } finally {
+      executeCommand.restore();
+    }
+  });
+});
+
+suite(':cfile and :cexpr', () => {
+  let modeHandler: ModeHandler;
+  let directory: string;
+
+  suiteSetup(async () => {
+    directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cfile-'));
+  });
+
+  suiteTeardown(async () => {
+    await fs.promises.rm(directory, { recursive: true, force: true });
+  });
+
+  setup(async () => {
+    await setupWorkspace();
+    quickfixLists.clear();
+    modeHandler = (await getAndUpdateModeHandler())!;
+    await modeHandler.handleMultipleKeyEvents(['i', 'foo\nbar\nbaz', '<Esc>', 'g', 'g']);
+  });
+
+  teardown(cleanUpWorkspace);
+
+  const getCursor = () => {
+    const cursor = modeHandler.vimState.cursorStopPosition;
+    return [cursor.line, cursor.character];
+  };
+
+  test(':cfile goes to the first error of the file', async () => {
+    const errorfile = path.join(directory, 'errors.err');
+    await fs.promises.writeFile(
+      errorfile,
+      `make: Entering directory\n${modeHandler.vimState.document.fileName}:3:2: error: oops\n`
+    );
+    await modeHandler.handleMultipleKeyEvents(`:cfile ${errorfile}\n`.split(''));
+    assert.deepStrictEqual(getCursor(), [2, 1]);
+    assert.strictEqual(StatusBar.getText(), '(2 of 2): oops');
+  });
+
+  test(':cfile fails on a file it can not read', async () => {
+    const errorfile = path.join(directory, 'missing.err');
+    await modeHandler.handleMultipleKeyEvents(`:cfile ${errorfile}\n`.split(''));
+    assert.strictEqual(
+      StatusBar.getText(),
+      VimError.fromCode(ErrorCode.CantOpenErrorfile, errorfile).toString()
+    );
+  });
+
+  test(':cexpr makes a list of the strings', async () => {
+    const fileName = modeHandler.vimState.document.fileName;
+    await modeHandler.handleMultipleKeyEvents(
+      `:cexpr ['${fileName}:2:3: warning: first', '${fileName}:3:1: second']\n`.split('')
+    );
+    assert.deepStrictEqual(getCursor(), [1, 2]);
+    await modeHandler.handleMultipleKeyEvents(':cn\n'.split(''));
+    assert.deepStrictEqual(getCursor(), [2, 0]);
+  });
+
+  test(':cgetexpr does not go to the first entry', async () => {
+    const fileName = modeHandler.vimState.document.fileName;
+    await modeHandler.handleMultipleKeyEvents(`:cgetexpr '${fileName}:2:3: oops'\n`.split(''));
+    assert.deepStrictEqual(getCursor(), [0, 0]);
+    await modeHandler.handleMultipleKeyEvents(':cc\n'.split(''));
+    assert.deepStrictEqual(getCursor(), [1, 2]);
+  });
+});
+
+suite(':make and :grep', () => {
+  if (process.platform === 'win32') {
+    return;
+  }
+
+  suiteSetup(setupWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+  setup(() => quickfixLists.clear());
+
+  newTest({
+    title: ':grep goes to the first match in the current file',
+    start: ['|bar', 'a foo', 'foo b'],
+    keysPressed: ':grep foo %\n',
+    end: ['bar', '|a foo', 'foo b'],
+  });
+
+  newTest({
+    title: ':make passes the current file to makeprg and goes to the first error',
+    config: { makeprg: "printf '%s:2:3: error: oops\\n' $*" },
+    start: ['|bar', 'a foo'],
+    keysPressed: ':make %\n',
+    end: ['bar', 'a |foo'],
+  });
+
+  newTest({
+    title: ':make! does not go to the first error',
+    config: { makeprg: "printf '%s:2:3: error: oops\\n' $*" },
+    start: ['|bar', 'a foo'],
+    keysPressed: ':make! %\n:cc\n',
+    end: ['bar', 'a |foo'],
+  });
+});
@@ -0,0 +1,155 @@
+import * as assert from 'assert';
+import * as sinon from 'sinon';
+
+import { getAndUpdateModeHandler } from '../../extension';
+import { TreeSitterAstProvider } from '../../src/ast/treeSitter';
+import { Mode } from '../../src/mode/mode';
+import { Configuration } from '../testConfiguration';
+import { newTest } from '../testSimplifier';
+import { cleanUpWorkspace, setupWorkspace } from './../testUtils';
+
+/**
+ * Opens a C file parsed with tree-sitter, which is bundled, whereas clangd may not be installed.
+ */
+async function setupTreeSitterWorkspace(): Promise<void> {
+  const configuration = new Configuration();
+  configuration.structuralAstProviders = {
+    ...configuration.structuralAstProviders,
+    c: 'tree-sitter',
+  };
+  await setupWorkspace(configuration, '.c');
+}
+
+suite('Mode Structural', () => {
+  suiteSetup(setupTreeSitterWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: 'Can swap a statement with the next one',
+    start: ['void g() {', '  |x = 1;', '  y = 2;', '}'],
+    keysPressed: 'gskkL',
+    end: ['void g() {', '  y = 2;', '  |x = 1;', '}'],
+    endMode: Mode.Structural,
+  });
+
+  newTest({
+    title: 'Does not swap the callee of a call with its arguments',
+    start: ['void g() {', '  |f(a, b);', '}'],
+    keysPressed: 'gsL',
+    end: ['void g() {', '  |f(a, b);', '}'],
+    endMode: Mode.Structural,
+  });
+
+  newTest({
+    title: 'Can wrap a statement along with the next one',
+    start: ['void g() {', '  |x = 1;', '  y = 2;', '  z = 3;', '}'],
+    keysPressed: 'gskk2wb',
+    end: ['void g() {', '  |{', '    x = 1;', '    y = 2;', '  }', '  z = 3;', '}'],
+    endMode: Mode.Structural,
+  });
+});
+
+suite('Mode Structural in Python', () => {
+  suiteSetup(async () => setupWorkspace(new Configuration(), '.py'));
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: 'Can swap a parameter without a default value with one with a default value',
+    start: ['def f(|a, b=1):', '    return a + b'],
+    keysPressed: 'gsL',
+    end: ['def f(b=1, |a):', '    return a + b'],
+    endMode: Mode.Structural,
+  });
+
+  newTest({
+    title: 'Can swap the parameters of a lambda',
+    start: ['g = lambda |a, b=1: a - b'],
+    keysPressed: 'gsL',
+    end: ['g = lambda b=1, |a: a - b'],
+    endMode: Mode.Structural,
+  });
+});
+
+suite('Mode Structural with a failing AST provider', () => {
+  setup(setupTreeSitterWorkspace);
+  teardown(async () => {
+    sinon.restore();
+    await cleanUpWorkspace();
+  });
+
+  test('Keys are still handled after the AST could not be fetched', async () => {
+    const modeHandler = (await getAndUpdateModeHandler())!;
+    await modeHandler.handleMultipleKeyEvents(['i', 'void g() {\nx = 1;\n}', '<Esc>', 'k', '^']);
+    const getNodeForRange = sinon.stub(TreeSitterAstProvider.prototype, 'getNodeForRange');
+    getNodeForRange.onFirstCall().rejects(new Error('AST request failed'));
+    getNodeForRange.callThrough();
+
+    await modeHandler.handleMultipleKeyEvents(['g', 's']);
+    assert.strictEqual(modeHandler.vimState.currentMode, Mode.Structural);
+    await modeHandler.handleMultipleKeyEvents(['g', 's']);
+    assert.ok(getNodeForRange.called);
+    assert.strictEqual(modeHandler.vimState.currentMode, Mode.Normal);
+  });
+});
+
+suite('Mode Structural Visual', () => {
+  suiteSetup(setupTreeSitterWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: 'Operators act on exactly the span of siblings',
+    start: ['void g() {', '  f(|a, b, c);', '}'],
+    keysPressed: 'gsvld',
+    end: ['void g() {', '  f(|, c);', '}'],
+    endMode: Mode.Normal,
+  });
+
+  newTest({
+    title: 'Operators act on a span selected backwards',
+    start: ['void g() {', '  f(a, b, |c);', '}'],
+    keysPressed: 'gsvhy$p',
+    end: ['void g() {', '  f(a, b, c);b, |c', '}'],
+    endMode: Mode.Normal,
+  });
+});
+
+suite('AST argument text objects', () => {
+  suiteSetup(setupTreeSitterWorkspace);
+  suiteTeardown(cleanUpWorkspace);
+
+  newTest({
+    title: "Can do 'dia' on an argument of a nested call",
+    start: ['void h() {', '  f(a, g(|b, c));', '}'],
+    keysPressed: 'dia',
+    end: ['void h() {', '  f(a, g(|, c));', '}'],
+  });
+
+  newTest({
+    title: "Can do 'd2ia' to delete the argument of the enclosing call",
+    start: ['void h() {', '  f(a, g(|b, c));', '}'],
+    keysPressed: 'd2ia',
+    end: ['void h() {', '  f(a, |);', '}'],
+  });
+
+  newTest({
+    title: "Can do 'daa' on an argument followed by another",
+    start: ['void h() {', '  f(a, g(|b, c));', '}'],
+    keysPressed: 'daa',
+    end: ['void h() {', '  f(a, g(|c));', '}'],
+  });
+
+  newTest({
+    title: "Can do 'daa' on the last argument",
+    start: ['void h() {', '  f(a, g(b, |c));', '}'],
+    keysPressed: 'daa',
+    end: ['void h() {', '  f(a, g(b|));', '}'],
+  });
+
+  newTest({
+    title: "Can do 'cia' on an argument spanning a nested call",
+    start: ['void h() {', '  f(a, |g(b, c));', '}'],
+    keysPressed: 'ciax',
+    end: ['void h() {', '  f(a, x|);', '}'],
+    endMode: Mode.Insert,
+  });
+});
@@ -231,4 +231,62 @@ suite('Undo', () => {
       end: ['abc|def'],
     });
   });
+
+  suite('Undo tree', () => {
+    newTest({
+      title: 'Redo follows the branch last undone',
+      start: ['|abc'],
+      keysPressed: 'xxu$xuu<C-r><C-r>',
+      end: ['|b'],
+    });
+
+    newTest({
+      title: 'g- goes to the previous state across branches',
+      start: ['|abc'],
+      keysPressed: 'xxu$xg-',
+      end: ['|c'],
+    });
+
+    newTest({
+      title: 'g- with a count',
+      start: ['|abc'],
+      keysPressed: 'xxu$x2g-',
+      end: ['|bc'],
+    });
+
+    newTest({
+      title: 'g+ goes to the next state across branches',
+      start: ['|abc'],
+      keysPressed: 'xxu$x2g-2g+',
+      end: ['|b'],
+    });
+
+    newTest({
+      title: ':earlier {N} goes back N states',
+      start: ['|abc'],
+      keysPressed: 'xxu$x:earlier 2\n',
+      end: ['|bc'],
+    });
+
+    newTest({
+      title: ':later goes forward one state',
+      start: ['|abc'],
+      keysPressed: 'xxu:later\n',
+      end: ['|c'],
+    });
+
+    newTest({
+      title: ':earlier {N}m goes back to the original document',
+      start: ['|abc'],
+      keysPressed: 'xx:earlier 10m\n',
+      end: ['|abc'],
+    });
+
+    newTest({
+      title: ':earlier 1f goes back to the original document if it was never written',
+      start: ['|abc'],
+      keysPressed: 'xx:earlier 1f\n',
+      end: ['|abc'],
+    });
+  });
 });
@@ -136,6 +136,24 @@ suite('register', () => {
     }
   });
 
+  test('Node registers are tagged with the node, until appended to', async () => {
+    const vimState = new VimState(vscode.window.activeTextEditor!, new EasyMotion());
+    await vimState.load();
+    vimState.recordedState.registerName = 'a';
+
+    Register.putNode(vimState, 'foo();', { kind: 'Call', indentation: '    ' });
+    const put = await Register.get('a');
+    assert.strictEqual(put?.text, 'foo();');
+    assert.deepStrictEqual(put?.node, { kind: 'Call', indentation: '    ' });
+    assert.deepStrictEqual((await Register.get('"'))?.node, put?.node);
+
+    vimState.recordedState.registerName = 'A';
+    Register.putNode(vimState, 'bar();', { kind: 'Call', indentation: '    ' });
+    const appended = await Register.get('a');
+    assert.strictEqual(appended?.text, 'foo();bar();');
+    assert.strictEqual(appended?.node, undefined);
+  });
+
   newTest({
     title: 'Small deletion using x is stored in small delete register',
     start: ['|test1', 'test2', 'test3'],
@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+
+import { ASTNode } from '../src/clangd/ast';
+import { formatAstPath } from '../src/statusBar';
+
+suite('AST path in the status bar', () => {
+  const makeNode = (kind: string, line: number, detail?: string): ASTNode => ({
+    role: 'expression',
+    kind,
+    detail,
+    range: { start: { line, character: 0 }, end: { line, character: 1 } },
+  });
+
+  test('shows the kind and detail of each node', () => {
+    assert.strictEqual(
+      formatAstPath(
+        [
+          makeNode('Function', 0, 'main'),
+          makeNode('Compound', 1),
+          makeNode('BinaryOperator', 2, '<'),
+        ],
+        [],
+        null
+      ),
+      'Function main › Compound › BinaryOperator <'
+    );
+  });
+
+  test('cuts long details short', () => {
+    assert.strictEqual(
+      formatAstPath([makeNode('StringLiteral', 0, `"${'a'.repeat(30)}"`)], [], null),
+      `StringLiteral "${'a'.repeat(18)}…`
+    );
+  });
+
+  test('shows only the innermost nodes of a long path', () => {
+    const path = [...Array(8).keys()].map((line) => makeNode(`Kind${line}`, line));
+    assert.strictEqual(
+      formatAstPath(path, [], null),
+      '… › Kind2 › Kind3 › Kind4 › Kind5 › Kind6 › Kind7'
+    );
+  });
+
+  test('shows the position of the node among its siblings', () => {
+    const siblings = [...Array(7).keys()].map((line) => makeNode('Call', line));
+    assert.strictEqual(
+      formatAstPath([makeNode('Compound', 0), siblings[2]], siblings, null),
+      'Compound › Call (3/7)'
+    );
+  });
+
+  test('shows the positions of the ends of a span of siblings', () => {
+    const siblings = [...Array(7).keys()].map((line) => makeNode('Call', line));
+    assert.strictEqual(
+      formatAstPath([makeNode('Compound', 0), siblings[1]], siblings, siblings[3]),
+      'Compound › Call (2-4/7)'
+    );
+  });
+});
@@ -65,6 +65,7 @@ export class Configuration implements IConfiguration {
   showmodename = true;
   leader = '//';
   history = 50;
+  undofile = false;
   incsearch = true;
   inccommand = '' as const;
   startInInsertMode = false;
@@ -76,6 +77,8 @@ export class Configuration implements IConfiguration {
     visualline: '#B48EAD',
     visualblock: '#A3BE8C',
     replace: '#D08770',
+    structural: '#A3BE8C',
+    structuralvisual: '#B48EAD',
   };
   searchHighlightColor = 'rgba(150, 150, 255, 0.3)';
   searchHighlightTextColor = '';
@@ -118,6 +121,8 @@ export class Configuration implements IConfiguration {
     visualline: 'line-thin',
     visualblock: 'block-outline',
     replace: 'underline-thin,',
+    structural: 'block-outline',
+    structuralvisual: 'block-outline',
   };
   insertModeKeyBindings: IKeyRemapping[] = [];
   insertModeKeyBindingsNonRecursive: IKeyRemapping[] = [];
@@ -144,4 +149,25 @@ export class Configuration implements IConfiguration {
   startofline = true;
   showMarksInGutter = true;
   shell = '';
+  makeprg = 'make';
+  grepprg = 'grep -n $* /dev/null';
+  errorformat = '%f:%l:%c: %trror: %m,%f:%l:%c: %tarning: %m,%f:%l:%c: %m,%f:%l: %m';
+  grepformat = '%f:%l:%c:%m,%f:%l:%m';
+  errorfile = 'errors.err';
+  structuralWrapTemplates = {
+    i: 'if (|) {\n\t$body\n}',
+    f: 'for (|;;) {\n\t$body\n}',
+    w: 'while (|) {\n\t$body\n}',
+    b: '{\n\t$body\n}',
+    d: 'do {\n\t$body\n} while (0);',
+    l: 'auto | = [&]() {\n\t$body\n};',
+  };
+  structuralAstProviders: { [languageId: string]: 'clangd' | 'tree-sitter' } = {
+    c: 'clangd',
+    cpp: 'clangd',
+    python: 'tree-sitter',
+    typescript: 'tree-sitter',
+    typescriptreact: 'tree-sitter',
+  };
+  structuralInlayHints = true;
 }
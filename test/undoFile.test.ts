@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+
+import { getAndUpdateModeHandler } from '../extension';
+import { Globals } from '../src/globals';
+import { HistoryTracker } from '../src/history/historyTracker';
+import { ModeHandler } from '../src/mode/modeHandler';
+import { Configuration } from './testConfiguration';
+import { assertEqualLines, cleanUpWorkspace, setupWorkspace } from './testUtils';
+
+suite('undofile', () => {
+  let modeHandler: ModeHandler;
+  let extensionStoragePath: string;
+
+  suiteSetup(async () => {
+    extensionStoragePath = Globals.extensionStoragePath;
+    Globals.extensionStoragePath = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'undofile-'));
+  });
+
+  suiteTeardown(async () => {
+    await fs.promises.rm(Globals.extensionStoragePath, { recursive: true, force: true });
+    Globals.extensionStoragePath = extensionStoragePath;
+  });
+
+  setup(async () => {
+    const configuration = new Configuration();
+    configuration.undofile = true;
+    await setupWorkspace(configuration);
+    modeHandler = (await getAndUpdateModeHandler())!;
+  });
+
+  teardown(cleanUpWorkspace);
+
+  /** Saves the document, waiting for the undofile its history is written to on save. */
+  const writeDocument = async () => {
+    const saveUndoFile = sinon.spy(modeHandler.vimState.historyTracker, 'saveUndoFile');
+    try {
+      await modeHandler.vimState.document.save();
+      assert.ok(saveUndoFile.calledOnce);
+      await saveUndoFile.firstCall.returnValue;
+    } finally {
+      saveUndoFile.restore();
+    }
+  };
+
+  test('restores the history of a file opened again as it was written', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', 'b', 'c', '<Esc>']);
+    await modeHandler.handleMultipleKeyEvents(['A', 'd', 'e', 'f', '<Esc>']);
+    await writeDocument();
+
+    const historyTracker = new HistoryTracker(modeHandler.vimState);
+    await historyTracker.loadUndoFile();
+    assert.notStrictEqual(await historyTracker.goBackHistoryStep(), undefined);
+    assertEqualLines(['abc']);
+    assert.notStrictEqual(await historyTracker.goBackHistoryStep(), undefined);
+    assertEqualLines(['']);
+  });
+
+  test('goes back to a state whose step does not know where the cursor was', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', 'b', 'c', '<Esc>']);
+    await writeDocument();
+    const undoDirectory = path.join(Globals.extensionStoragePath, 'undo');
+    for (const file of await fs.promises.readdir(undoDirectory)) {
+      const undoFile = JSON.parse(
+        await fs.promises.readFile(path.join(undoDirectory, file), 'utf-8')
+      );
+      for (const step of undoFile.undoStack.steps) {
+        delete step.cursorStart;
+      }
+      await fs.promises.writeFile(path.join(undoDirectory, file), JSON.stringify(undoFile));
+    }
+
+    const historyTracker = new HistoryTracker(modeHandler.vimState);
+    await historyTracker.loadUndoFile();
+    assert.notStrictEqual(await historyTracker.goToEarlierOrLaterState(-1, 'step'), undefined);
+    assertEqualLines(['']);
+  });
+
+  test('ignores the history of a file which changed since it was written', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', 'b', 'c', '<Esc>']);
+    await writeDocument();
+    await modeHandler.vimState.editor.edit((builder) =>
+      builder.insert(new vscode.Position(0, 0), 'x')
+    );
+
+    const historyTracker = new HistoryTracker(modeHandler.vimState);
+    await historyTracker.loadUndoFile();
+    assert.strictEqual(await historyTracker.goBackHistoryStep(), undefined);
+  });
+
+  test('leaves an insertion written before it ends in one step', async () => {
+    await modeHandler.handleMultipleKeyEvents(['i', 'a', 'b', 'c']);
+    await writeDocument();
+    await modeHandler.handleMultipleKeyEvents(['d', 'e', 'f', '<Esc>']);
+
+    await modeHandler.handleMultipleKeyEvents(['u']);
+    assertEqualLines(['']);
+  });
+});